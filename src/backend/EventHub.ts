@@ -0,0 +1,111 @@
+import { logger } from "../globals"
+import { EventStreamClient, EventStreamState } from "./EventStreamClient"
+import { ServerEvent, getEventSessionId } from "./ServerEvents"
+
+/**
+ * One shared /event subscription per backend, fanned out to every view by session
+ * The editor panel and the sidebar both subscribe here instead of opening their own streams
+ */
+
+export interface EventSubscriber {
+  /** Session this subscriber shows; events of other sessions go to onForeignEvent */
+  getSessionId(): string | null
+  onEvent(event: ServerEvent): void
+  onForeignEvent?(sessionId: string, event: ServerEvent): void
+  onStateChange?(state: EventStreamState, retryInMs?: number): void
+  onReconnect?(): void
+}
+
+export interface EventSubscription {
+  dispose(): void
+}
+
+export class EventHub {
+  private static hubs = new Map<string, EventHub>()
+
+  private baseUrl: string
+  private stream: EventStreamClient
+  private subscribers = new Set<EventSubscriber>()
+  private retryInMs?: number
+
+  private constructor(baseUrl: string) {
+    this.baseUrl = baseUrl
+    this.stream = new EventStreamClient(`${baseUrl}/event`)
+    this.stream.setEventCallback((event) => this.dispatch(event))
+    this.stream.setStateChangeCallback((state, retryInMs) => {
+      this.retryInMs = retryInMs
+      for (const subscriber of this.subscribers) {
+        subscriber.onStateChange?.(state, retryInMs)
+      }
+    })
+    this.stream.setReconnectCallback(() => {
+      for (const subscriber of this.subscribers) {
+        subscriber.onReconnect?.()
+      }
+    })
+  }
+
+  /**
+   * Get the hub for a backend, creating it on first use
+   * @param baseUrl Backend origin (e.g. http://127.0.0.1:4096)
+   */
+  static forBackend(baseUrl: string): EventHub {
+    const key = baseUrl.replace(/\/+$/, "")
+    let hub = EventHub.hubs.get(key)
+    if (!hub) {
+      logger.appendLine(`[EventHub] Creating event hub for ${key}`)
+      hub = new EventHub(key)
+      EventHub.hubs.set(key, hub)
+    }
+    return hub
+  }
+
+  /**
+   * Register a subscriber and make sure the stream is open
+   * The stream is closed when the last subscription is disposed
+   */
+  subscribe(subscriber: EventSubscriber): EventSubscription {
+    this.subscribers.add(subscriber)
+    this.stream.start()
+    subscriber.onStateChange?.(this.stream.getState(), this.retryInMs)
+
+    return {
+      dispose: () => {
+        if (!this.subscribers.delete(subscriber) || this.subscribers.size > 0) {
+          return
+        }
+        logger.appendLine(`[EventHub] No subscribers left, closing event hub for ${this.baseUrl}`)
+        this.stream.stop()
+        EventHub.hubs.delete(this.baseUrl)
+      },
+    }
+  }
+
+  /**
+   * Reopen the stream if it gave up (offline)
+   */
+  ensureConnected(): void {
+    if (this.subscribers.size > 0) {
+      this.stream.start()
+    }
+  }
+
+  getState(): EventStreamState {
+    return this.stream.getState()
+  }
+
+  private dispatch(event: ServerEvent): void {
+    const sessionId = getEventSessionId(event)
+    for (const subscriber of this.subscribers) {
+      try {
+        if (!sessionId || sessionId === subscriber.getSessionId()) {
+          subscriber.onEvent(event)
+        } else {
+          subscriber.onForeignEvent?.(sessionId, event)
+        }
+      } catch (err) {
+        logger.appendLine(`[EventHub] Subscriber failed on ${event.type}: ${err}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import * as http from "http"
+import { logger } from "../globals"
+import { ServerEvent } from "./ServerEvents"
+
+/**
+ * Reconnecting client for the backend /event Server-Sent Events stream
+ * Retries with exponential backoff; once the backend has shown it sends heartbeats, a silent stream is treated as dropped
+ */
+
+export type EventStreamState = "connecting" | "connected" | "retrying" | "offline"
+
+export interface EventStreamOptions {
+  /** Delay before the first retry; doubles on every failed attempt */
+  initialDelayMs?: number
+  maxDelayMs?: number
+  /** Reconnect when nothing (not even a heartbeat) arrives for this long; only used after a heartbeat was seen */
+  idleTimeoutMs?: number
+  /** Give up and go offline after this many failed attempts in a row */
+  maxRetries?: number
+}
+
+const DEFAULT_OPTIONS: Required<EventStreamOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  idleTimeoutMs: 60000,
+  maxRetries: 10,
+}
+
+export class EventStreamClient {
+  private url: string
+  private options: Required<EventStreamOptions>
+  private request?: http.ClientRequest
+  private state: EventStreamState = "offline"
+  private running = false
+  private hasConnected = false
+  // Backends without heartbeats can be legitimately quiet for long stretches
+  private heartbeatSeen = false
+  private attempt = 0
+  private retryTimer?: NodeJS.Timeout
+  private idleTimer?: NodeJS.Timeout
+
+  private onEventCallback?: (event: ServerEvent) => void
+  private onStateChangeCallback?: (state: EventStreamState, retryInMs?: number) => void
+  private onReconnectCallback?: () => void
+
+  constructor(url: string, options: EventStreamOptions = {}) {
+    this.url = url
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Set callback for every parsed event
+   */
+  setEventCallback(callback: (event: ServerEvent) => void): void {
+    this.onEventCallback = callback
+  }
+
+  /**
+   * Set callback for connection state changes
+   */
+  setStateChangeCallback(callback: (state: EventStreamState, retryInMs?: number) => void): void {
+    this.onStateChangeCallback = callback
+  }
+
+  /**
+   * Set callback for a successful reconnect (events may have been missed while down)
+   */
+  setReconnectCallback(callback: () => void): void {
+    this.onReconnectCallback = callback
+  }
+
+  getState(): EventStreamState {
+    return this.state
+  }
+
+  /**
+   * Open the stream; a client that went offline starts a fresh round of retries
+   */
+  start(): void {
+    if (this.running && this.state !== "offline") {
+      return
+    }
+    this.running = true
+    this.attempt = 0
+    this.connect()
+  }
+
+  /**
+   * Close the stream and cancel pending retries
+   */
+  stop(): void {
+    this.running = false
+    this.clearTimers()
+    this.closeRequest()
+    this.setState("offline")
+  }
+
+  private connect(): void {
+    this.retryTimer = undefined
+    if (this.attempt === 0) {
+      this.setState("connecting")
+    }
+    logger.appendLine(`[EventStreamClient] Connecting to ${this.url} (attempt ${this.attempt + 1})`)
+
+    const request = http.get(this.url, { headers: { Accept: "text/event-stream" } }, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume()
+        this.fail(request, `status ${res.statusCode}`)
+        return
+      }
+
+      const reconnected = this.hasConnected
+      this.hasConnected = true
+      this.attempt = 0
+      this.setState("connected")
+      this.resetIdleTimer(request)
+      if (reconnected) {
+        this.onReconnectCallback?.()
+      }
+
+      res.setEncoding("utf8")
+      let buffer = ""
+      let dataLines: string[] = []
+
+      res.on("data", (chunk: string) => {
+        this.resetIdleTimer(request)
+        buffer += chunk
+        const lines = buffer.split(/\r?\n/)
+        // Keep the last partial line in the buffer
+        buffer = lines.pop() || ""
+
+        for (const line of lines) {
+          if (line.startsWith(":")) {
+            // SSE comment: a keep-alive
+            this.noteHeartbeat(request)
+          } else if (line === "") {
+            // A blank line ends the event
+            if (dataLines.length > 0) {
+              this.dispatch(request, dataLines.join("\n"))
+              dataLines = []
+            }
+          } else if (line.startsWith("data:")) {
+            dataLines.push(line.slice(5).trimStart())
+          }
+        }
+      })
+
+      res.on("end", () => this.fail(request, "ended by server"))
+      res.on("error", (err) => this.fail(request, err.message))
+    })
+
+    request.on("error", (err) => this.fail(request, err.message))
+    this.request = request
+  }
+
+  private dispatch(request: http.ClientRequest, data: string): void {
+    // Skip keep-alive messages or empty data
+    if (!data || data === "{}") {
+      if (data) {
+        this.noteHeartbeat(request)
+      }
+      return
+    }
+    try {
+      const event: ServerEvent = JSON.parse(data)
+      if (event.type === "server.heartbeat") {
+        this.noteHeartbeat(request)
+      }
+      this.onEventCallback?.(event)
+    } catch (err) {
+      logger.appendLine(`[EventStreamClient] Error handling event: ${err}`)
+    }
+  }
+
+  private fail(request: http.ClientRequest, reason: string): void {
+    // end and error can both fire for the same request; only the current one counts
+    if (request !== this.request || !this.running) {
+      return
+    }
+    logger.appendLine(`[EventStreamClient] Stream lost: ${reason}`)
+    this.clearTimers()
+    this.closeRequest()
+
+    if (this.attempt >= this.options.maxRetries) {
+      logger.appendLine(`[EventStreamClient] Giving up after ${this.attempt} attempts`)
+      this.setState("offline")
+      return
+    }
+
+    const delay = Math.min(this.options.maxDelayMs, this.options.initialDelayMs * 2 ** this.attempt)
+    this.attempt++
+    this.setState("retrying", delay)
+    this.retryTimer = setTimeout(() => this.connect(), delay)
+  }
+
+  private noteHeartbeat(request: http.ClientRequest): void {
+    if (!this.heartbeatSeen) {
+      this.heartbeatSeen = true
+      this.resetIdleTimer(request)
+    }
+  }
+
+  private resetIdleTimer(request: http.ClientRequest): void {
+    if (!this.heartbeatSeen) {
+      return
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+    }
+    this.idleTimer = setTimeout(() => {
+      this.fail(request, `no data for ${this.options.idleTimeoutMs}ms`)
+    }, this.options.idleTimeoutMs)
+  }
+
+  private closeRequest(): void {
+    const request = this.request
+    this.request = undefined
+    request?.destroy()
+  }
+
+  private clearTimers(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = undefined
+    }
+  }
+
+  private setState(state: EventStreamState, retryInMs?: number): void {
+    if (state === this.state && state !== "retrying") {
+      return
+    }
+    this.state = state
+    this.onStateChangeCallback?.(state, retryInMs)
+  }
+}
@@ -0,0 +1,209 @@
+import { BackendConnection } from "./BackendLauncher"
+import { logger } from "../globals"
+
+/**
+ * Thin REST client for the OpenCode backend API
+ * Wraps the /session endpoints used by the chat UI
+ */
+
+export interface SessionInfo {
+  id: string
+  title: string
+  parentID?: string
+  time: {
+    created: number
+    updated: number
+  }
+}
+
+export interface MessageInfo {
+  id: string
+  sessionID: string
+  role: "user" | "assistant"
+  time: {
+    created: number
+    completed?: number
+  }
+  [key: string]: any
+}
+
+export interface MessagePart {
+  id: string
+  sessionID: string
+  messageID: string
+  type: string
+  text?: string
+  synthetic?: boolean
+  [key: string]: any
+}
+
+export interface SessionMessage {
+  info: MessageInfo
+  parts: MessagePart[]
+}
+
+export interface ModelInfo {
+  id: string
+  name: string
+  reasoning?: boolean
+  limit?: {
+    context: number
+    output: number
+  }
+  // Reasoning-effort presets (e.g. low / medium / high), keyed by variant name
+  variants?: Record<string, unknown>
+  [key: string]: any
+}
+
+export interface ProviderInfo {
+  id: string
+  name: string
+  models: Record<string, ModelInfo>
+}
+
+export interface ProvidersResponse {
+  providers: ProviderInfo[]
+  // Default model ID per provider ID
+  default: Record<string, string>
+}
+
+export interface AgentInfo {
+  name: string
+  description?: string
+  // "primary" agents can be chosen by the user, "subagent" ones are only invoked by other agents
+  mode: "primary" | "subagent" | "all"
+  builtIn?: boolean
+  [key: string]: any
+}
+
+export class OpenCodeClient {
+  private baseUrl: string
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "")
+  }
+
+  /**
+   * Build a client from a backend connection (uses the origin of uiBase)
+   * @param connection Backend connection details
+   */
+  static fromConnection(connection: BackendConnection): OpenCodeClient {
+    return new OpenCodeClient(new URL(connection.uiBase).origin)
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl
+  }
+
+  /**
+   * List sessions, most recently updated first
+   */
+  async listSessions(): Promise<SessionInfo[]> {
+    const sessions = await this.request<SessionInfo[]>("GET", "/session")
+    return (sessions || []).sort((a, b) => (b.time?.updated ?? 0) - (a.time?.updated ?? 0))
+  }
+
+  /**
+   * Create a new session
+   * @param title Optional session title
+   */
+  async createSession(title?: string): Promise<SessionInfo> {
+    return this.request<SessionInfo>("POST", "/session", title ? { title } : {})
+  }
+
+  /**
+   * Rename an existing session
+   * @param sessionId Session ID
+   * @param title New title
+   */
+  async renameSession(sessionId: string, title: string): Promise<SessionInfo> {
+    return this.request<SessionInfo>("PATCH", `/session/${encodeURIComponent(sessionId)}`, { title })
+  }
+
+  /**
+   * Delete a session and all of its messages
+   * @param sessionId Session ID
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.request<unknown>("DELETE", `/session/${encodeURIComponent(sessionId)}`)
+  }
+
+  /**
+   * Get the full transcript of a session
+   * @param sessionId Session ID
+   */
+  async getMessages(sessionId: string): Promise<SessionMessage[]> {
+    const messages = await this.request<SessionMessage[]>("GET", `/session/${encodeURIComponent(sessionId)}/message`)
+    return messages || []
+  }
+
+  /**
+   * Abort the generation currently running in a session
+   * @param sessionId Session ID
+   */
+  async abortSession(sessionId: string): Promise<void> {
+    await this.request<unknown>("POST", `/session/${encodeURIComponent(sessionId)}/abort`)
+  }
+
+  /**
+   * Answer a pending permission request
+   * @param sessionId Session ID
+   * @param permissionId Permission ID from the permission.updated event
+   * @param response "once", "always" (for the rest of the session) or "reject"
+   */
+  async respondPermission(sessionId: string, permissionId: string, response: "once" | "always" | "reject"): Promise<void> {
+    await this.request<unknown>(
+      "POST",
+      `/session/${encodeURIComponent(sessionId)}/permissions/${encodeURIComponent(permissionId)}`,
+      { response },
+    )
+  }
+
+  /**
+   * List configured providers and their models
+   */
+  async getProviders(): Promise<ProvidersResponse> {
+    const result = await this.request<ProvidersResponse>("GET", "/config/providers")
+    return { providers: result?.providers || [], default: result?.default || {} }
+  }
+
+  /**
+   * Whether prompts can carry file parts (context by URI) instead of inlined text
+   * Read from the backend's OpenAPI document; old backends without it get the text fallback
+   */
+  async supportsFileParts(): Promise<boolean> {
+    try {
+      const doc = await this.request<any>("GET", "/doc")
+      return !!doc?.components?.schemas?.FilePartInput
+    } catch (error) {
+      logger.appendLine(`[OpenCodeClient] Could not read the API document, assuming no file parts: ${error}`)
+      return false
+    }
+  }
+
+  /**
+   * List the agents the backend knows about (built-in and user-defined)
+   */
+  async listAgents(): Promise<AgentInfo[]> {
+    const agents = await this.request<AgentInfo[]>("GET", "/agent")
+    return agents || []
+  }
+
+  private async request<T>(method: string, route: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}${route}`
+    logger.appendLine(`[OpenCodeClient] ${method} ${url}`)
+
+    const response = await fetch(url, {
+      method,
+      headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    })
+
+    if (!response.ok) {
+      throw new Error(`${method} ${route} failed: ${response.status} ${response.statusText}`)
+    }
+
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+}
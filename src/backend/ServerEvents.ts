@@ -0,0 +1,33 @@
+/**
+ * Shapes and helpers for events on the backend /event stream
+ */
+
+export interface ServerEvent {
+  type: string
+  properties?: Record<string, any>
+  [key: string]: any
+}
+
+/**
+ * Session an event belongs to, or undefined for global events (server.connected, installation.updated, ...)
+ * @param event Parsed event from the stream
+ */
+export function getEventSessionId(event: ServerEvent): string | undefined {
+  const props = event.properties
+  if (!props) {
+    return undefined
+  }
+  if (typeof props.sessionID === "string") {
+    return props.sessionID
+  }
+  // message.updated carries the message info, message.part.updated the part
+  const nested = props.info?.sessionID ?? props.part?.sessionID
+  if (typeof nested === "string") {
+    return nested
+  }
+  // session.updated / session.deleted carry the session itself
+  if (event.type.startsWith("session.") && typeof props.info?.id === "string") {
+    return props.info.id
+  }
+  return undefined
+}
@@ -0,0 +1,79 @@
+import * as vscode from "vscode"
+import { WebviewController } from "../ui/WebviewController"
+import { logger } from "../globals"
+
+/**
+ * Command palette entries for managing OpenCode sessions
+ * Routes to the controller of the active OpenCode view (editor panel or sidebar)
+ */
+
+export class SessionCommands {
+  /**
+   * Pick a session from the backend and make it active
+   */
+  static async handleSwitch(): Promise<void> {
+    const controller = this.getController()
+    if (controller) {
+      await controller.pickSession()
+    }
+  }
+
+  /**
+   * Start a fresh session
+   */
+  static async handleNew(): Promise<void> {
+    const controller = this.getController()
+    if (controller) {
+      await controller.createSession()
+    }
+  }
+
+  /**
+   * Rename the active session
+   */
+  static async handleRename(): Promise<void> {
+    const controller = this.getController()
+    if (controller) {
+      await controller.renameSession()
+    }
+  }
+
+  /**
+   * Delete the active session
+   */
+  static async handleDelete(): Promise<void> {
+    const controller = this.getController()
+    if (controller) {
+      await controller.deleteSession()
+    }
+  }
+
+  /**
+   * Stop the generation running in the active session
+   */
+  static async handleAbort(): Promise<void> {
+    const controller = this.getController()
+    if (controller) {
+      await controller.abort()
+    }
+  }
+
+  /**
+   * Switch the active view to the next agent (build, plan, custom agents)
+   */
+  static async handleCycleAgent(): Promise<void> {
+    const controller = this.getController()
+    if (controller) {
+      await controller.cycleAgent()
+    }
+  }
+
+  private static getController(): WebviewController | undefined {
+    const controller = WebviewController.getActive()
+    if (!controller) {
+      logger.appendLine("No active OpenCode view for session command")
+      vscode.window.showWarningMessage("OpenCode: Open the OpenCode view first")
+    }
+    return controller
+  }
+}
@@ -3,6 +3,8 @@ import { WebviewManager } from "./ui/WebviewManager"
 import { BackendLauncher } from "./backend/BackendLauncher"
 import { SettingsManager } from "./settings/SettingsManager"
 import { ActivityBarProvider } from "./ui/ActivityBarProvider"
+import { PROPOSED_SCHEME, proposedChanges } from "./ui/ProposedChanges"
+import { workspaceApply } from "./ui/WorkspaceApply"
 import { ErrorCategory, errorHandler, ErrorSeverity } from "./utils/ErrorHandler"
 import { logger } from "./globals"
 
@@ -126,8 +128,63 @@ class OpenCodeExtension {
       await this.handlePastePath(uri)
     })
 
+    // Session management commands
+    const switchSessionCommand = vscode.commands.registerCommand("opencode.switchSession", async () => {
+      await this.handleSessionCommand("switch")
+    })
+
+    const newSessionCommand = vscode.commands.registerCommand("opencode.newSession", async () => {
+      await this.handleSessionCommand("new")
+    })
+
+    const renameSessionCommand = vscode.commands.registerCommand("opencode.renameSession", async () => {
+      await this.handleSessionCommand("rename")
+    })
+
+    const deleteSessionCommand = vscode.commands.registerCommand("opencode.deleteSession", async () => {
+      await this.handleSessionCommand("delete")
+    })
+
+    const abortCommand = vscode.commands.registerCommand("opencode.abort", async () => {
+      await this.handleSessionCommand("abort")
+    })
+
+    const cycleAgentCommand = vscode.commands.registerCommand("opencode.cycleAgent", async () => {
+      await this.handleSessionCommand("cycleAgent")
+    })
+
+    // Proposed changes opened in the diff editor (editor title actions)
+    const proposedContentProvider = vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, proposedChanges)
+
+    const acceptProposalCommand = vscode.commands.registerCommand("opencode.acceptProposal", async (uri?: vscode.Uri) => {
+      await proposedChanges.accept(uri)
+    })
+
+    const rejectProposalCommand = vscode.commands.registerCommand("opencode.rejectProposal", async (uri?: vscode.Uri) => {
+      await proposedChanges.reject(uri)
+    })
+
+    const undoLastApplyCommand = vscode.commands.registerCommand("opencode.undoLastApply", async () => {
+      await workspaceApply.undoLast()
+    })
+
     // Add all commands to context subscriptions for proper cleanup
-    context.subscriptions.push(openPanelCommand, addFileToContextCommand, addLinesToContextCommand, pastePathCommand)
+    context.subscriptions.push(
+      openPanelCommand,
+      addFileToContextCommand,
+      addLinesToContextCommand,
+      pastePathCommand,
+      switchSessionCommand,
+      newSessionCommand,
+      renameSessionCommand,
+      deleteSessionCommand,
+      abortCommand,
+      cycleAgentCommand,
+      proposedContentProvider,
+      acceptProposalCommand,
+      rejectProposalCommand,
+      undoLastApplyCommand,
+    )
 
     logger.appendLine("Extension commands registered successfully")
   }
@@ -316,6 +373,49 @@ class OpenCodeExtension {
     }
   }
 
+  /**
+   * Handle session management commands
+   * @param action Session action to perform
+   */
+  private async handleSessionCommand(action: "switch" | "new" | "rename" | "delete" | "abort" | "cycleAgent"): Promise<void> {
+    try {
+      const { SessionCommands } = await import("./commands/SessionCommands")
+      switch (action) {
+        case "switch":
+          await SessionCommands.handleSwitch()
+          break
+        case "new":
+          await SessionCommands.handleNew()
+          break
+        case "rename":
+          await SessionCommands.handleRename()
+          break
+        case "delete":
+          await SessionCommands.handleDelete()
+          break
+        case "abort":
+          await SessionCommands.handleAbort()
+          break
+        case "cycleAgent":
+          await SessionCommands.handleCycleAgent()
+          break
+      }
+    } catch (error) {
+      logger.appendLine(`Error in session command ${action}: ${error}`)
+
+      await errorHandler.handleError(
+        errorHandler.createErrorContext(
+          ErrorCategory.COMMAND_EXECUTION,
+          ErrorSeverity.ERROR,
+          "OpenCodeExtension",
+          "handleSessionCommand",
+          error instanceof Error ? error : new Error(String(error)),
+          { action },
+        ),
+      )
+    }
+  }
+
   /**
    * Get the webview manager instance
    * @returns WebviewManager instance or undefined
@@ -0,0 +1,36 @@
+import * as assert from "assert"
+import { AgentInfo } from "../../backend/OpenCodeClient"
+import { nextAgent, resolveAgent, selectableAgents } from "../../ui/Agents"
+
+const AGENTS: AgentInfo[] = [
+  { name: "build", mode: "primary" },
+  { name: "general", mode: "subagent" },
+  { name: "plan", mode: "primary" },
+  { name: "review", mode: "all" },
+]
+
+suite("Agents Test Suite", () => {
+  test("selectableAgents should drop subagents", () => {
+    assert.deepStrictEqual(
+      selectableAgents(AGENTS).map((a) => a.name),
+      ["build", "plan", "review"],
+    )
+  })
+
+  test("resolveAgent should keep a stored agent only while the backend has it", () => {
+    const agents = selectableAgents(AGENTS)
+    assert.strictEqual(resolveAgent("plan", agents), "plan")
+    assert.strictEqual(resolveAgent("removed", agents), undefined)
+    assert.strictEqual(resolveAgent(undefined, agents), undefined)
+    // Before the list is loaded the stored choice is trusted
+    assert.strictEqual(resolveAgent("removed", undefined), "removed")
+  })
+
+  test("nextAgent should cycle through the list and wrap around", () => {
+    const agents = selectableAgents(AGENTS)
+    assert.strictEqual(nextAgent(agents, "build")?.name, "plan")
+    assert.strictEqual(nextAgent(agents, "review")?.name, "build")
+    assert.strictEqual(nextAgent(agents, undefined)?.name, "build")
+    assert.strictEqual(nextAgent([], "build"), undefined)
+  })
+})
@@ -0,0 +1,245 @@
+import * as assert from "assert"
+import * as path from "path"
+import { pathToFileURL } from "url"
+import { toHistoryMessages, toToolCard } from "../../ui/ChatHistory"
+import { SessionMessage } from "../../backend/OpenCodeClient"
+import { inlineContextText, toFilePart } from "../../ui/ContextParts"
+import { formatFolderContext } from "../../ui/FolderContext"
+
+function message(id: string, role: "user" | "assistant", parts: any[], created = 1000): SessionMessage {
+  return {
+    info: { id, sessionID: "ses_1", role, time: { created } },
+    parts: parts.map((p, i) => ({ id: `${id}_p${i}`, sessionID: "ses_1", messageID: id, ...p })),
+  }
+}
+
+suite("ChatHistory Test Suite", () => {
+  test("should keep roles, text and timestamps", () => {
+    const history = toHistoryMessages([
+      message("m1", "user", [{ type: "text", text: "hello" }], 1000),
+      message("m2", "assistant", [{ type: "text", text: "Hi " }, { type: "text", text: "there" }], 2000),
+    ])
+
+    assert.strictEqual(history.length, 2)
+    assert.deepStrictEqual(
+      history.map((m) => [m.role, m.text, m.timestamp]),
+      [
+        ["user", "hello", 1000],
+        ["assistant", "Hi there", 2000],
+      ],
+    )
+  })
+
+  test("should turn inlined context blocks back into context chips", () => {
+    const [user] = toHistoryMessages([
+      message("m1", "user", [
+        { type: "text", text: "explain this" },
+        { type: "text", text: "\n\n[Context: /repo/src/main.ts:10-20]\n```\ncode\n```" },
+        { type: "text", text: "\n\n[Context: /repo/missing.ts - File not accessible]" },
+        { type: "text", text: "\n\n[Context: Folder /repo/src]" },
+      ]),
+    ])
+
+    assert.strictEqual(user.text, "explain this")
+    assert.deepStrictEqual(
+      user.context.map((c) => [c.type, c.path, c.name, c.lineStart, c.lineEnd]),
+      [
+        ["file", "/repo/src/main.ts", "main.ts", 10, 20],
+        ["file", "/repo/missing.ts", "missing.ts", undefined, undefined],
+        ["folder", "/repo/src", "src", undefined, undefined],
+      ],
+    )
+  })
+
+  test("should restore chips of context inlined from unsaved editors", () => {
+    const [user] = toHistoryMessages([
+      message("m1", "user", [
+        { type: "text", text: "check" },
+        { type: "text", text: inlineContextText({ type: "code", path: "/repo/a.ts", lineStart: 2, lineEnd: 4 }, "code", true) },
+      ]),
+    ])
+
+    assert.strictEqual(user.text, "check")
+    assert.deepStrictEqual(
+      user.context.map((c) => [c.path, c.lineStart, c.lineEnd]),
+      [["/repo/a.ts", 2, 4]],
+    )
+  })
+
+  test("should restore exactly one chip for a folder, sent as a part or inlined", () => {
+    const folder = path.resolve("ws", "src")
+    const tree = formatFolderContext("src", {
+      tree: "src/\n  a.ts",
+      contents: [{ path: "a.ts", content: "export {}" }],
+      summary: { entries: 1, files: ["a.ts"], truncated: false },
+    })
+    const history = toHistoryMessages([
+      message("m1", "user", [{ type: "text", text: "look" }, toFilePart({ type: "folder", path: "src" }, folder)]),
+      message("m2", "user", [{ type: "text", text: "look" }, { type: "text", text: tree }]),
+      message("m3", "user", [{ type: "text", text: "look" }, { type: "text", text: "\n\n[Context: Folder gone - Folder not accessible]" }]),
+    ])
+
+    assert.deepStrictEqual(
+      history.map((m) => m.context.map((c) => [c.type, c.path])),
+      [[["folder", folder]], [["folder", "src"]], [["folder", "gone"]]],
+    )
+  })
+
+  test("should restore the chip of a file sent as a summary", () => {
+    const [user] = toHistoryMessages([
+      message("m1", "user", [
+        { type: "text", text: "explain" },
+        { type: "text", text: "\n\n[Context: src/x.ts (summary)]\n```\nclass X\n```" },
+      ]),
+    ])
+
+    assert.deepStrictEqual(
+      user.context.map((c) => [c.type, c.path, c.name]),
+      [["file", "src/x.ts", "x.ts"]],
+    )
+  })
+
+  test("should map file parts of user messages to context chips", () => {
+    const [user] = toHistoryMessages([
+      message("m1", "user", [
+        { type: "text", text: "look" },
+        { type: "file", mime: "text/plain", url: "file:///repo/a%20b.ts", filename: "a b.ts" },
+      ]),
+    ])
+
+    assert.strictEqual(user.context.length, 1)
+    assert.strictEqual(user.context[0].path, "/repo/a b.ts")
+    assert.strictEqual(user.context[0].name, "a b.ts")
+  })
+
+  test("should keep the line range of file parts", () => {
+    const [user] = toHistoryMessages([
+      message("m1", "user", [
+        { type: "text", text: "look" },
+        { type: "file", mime: "text/plain", url: "file:///repo/a.ts?start=10&end=20", filename: "a.ts" },
+        { type: "file", mime: "text/plain", url: "file:///repo/b.ts?start=7", filename: "b.ts" },
+        { type: "file", mime: "application/x-directory", url: "file:///repo/src?start=1&end=2", filename: "src" },
+      ]),
+    ])
+
+    assert.deepStrictEqual(
+      user.context.map((c) => [c.type, c.path, c.lineStart, c.lineEnd]),
+      [
+        ["file", "/repo/a.ts", 10, 20],
+        ["file", "/repo/b.ts", 7, 7],
+        ["folder", "/repo/src", undefined, undefined],
+      ],
+    )
+  })
+
+  test("should decode file URLs with the platform's path rules", () => {
+    const filePath = path.resolve("dossier été", "naïve file.ts")
+    const url = pathToFileURL(filePath)
+    url.searchParams.set("start", "3")
+    url.searchParams.set("end", "4")
+    const [user] = toHistoryMessages([message("m1", "user", [{ type: "file", mime: "text/plain", url: url.href, filename: "naïve file.ts" }])])
+
+    assert.deepStrictEqual(
+      user.context.map((c) => [c.path, c.name, c.lineStart, c.lineEnd]),
+      [[filePath, "naïve file.ts", 3, 4]],
+    )
+  })
+
+  test("should skip synthetic parts, non-text parts and empty messages", () => {
+    const history = toHistoryMessages([
+      message("m1", "user", [{ type: "text", text: "hidden", synthetic: true }]),
+      message("m2", "assistant", [{ type: "step-start" }, { type: "step-finish" }]),
+      message("m3", "assistant", [{ type: "text", text: "done" }]),
+    ])
+
+    assert.deepStrictEqual(
+      history.map((m) => m.id),
+      ["m3"],
+    )
+    assert.strictEqual(history[0].parts, undefined)
+  })
+
+  test("should keep tool parts in order with the text of assistant messages", () => {
+    const [assistant] = toHistoryMessages([
+      message("m1", "assistant", [
+        { type: "text", text: "Reading it" },
+        { type: "step-start" },
+        { type: "tool", tool: "read", state: { status: "completed", input: { filePath: "/repo/a.ts" }, output: "code" } },
+        { type: "text", text: "Done" },
+      ]),
+    ])
+
+    assert.strictEqual(assistant.text, "Reading itDone")
+    assert.deepStrictEqual(
+      assistant.parts?.map((p) => (p.type === "tool" ? `tool:${p.tool}:${p.state.status}` : `text:${p.text}`)),
+      ["text:Reading it", "tool:read:completed", "text:Done"],
+    )
+  })
+
+  test("should keep assistant messages that only ran tools", () => {
+    const history = toHistoryMessages([message("m1", "assistant", [{ type: "tool", tool: "bash", state: { status: "running" } }])])
+
+    assert.strictEqual(history.length, 1)
+    assert.strictEqual(history[0].text, "")
+  })
+
+  test("should keep reasoning parts with their timing and mark them restored", () => {
+    const [assistant] = toHistoryMessages([
+      message("m1", "assistant", [
+        { type: "reasoning", text: "Check the loop", time: { start: 10, end: 2010 } },
+        { type: "reasoning", text: "" },
+        { type: "text", text: "Off by one" },
+      ]),
+    ])
+
+    assert.strictEqual(assistant.text, "Off by one")
+    assert.deepStrictEqual(assistant.parts, [
+      { id: "m1_p0", type: "reasoning", text: "Check the loop", time: { start: 10, end: 2010 }, restored: true },
+      { id: "m1_p2", type: "text", text: "Off by one" },
+    ])
+  })
+
+  test("should keep reasoning without an end time and ignore it on user messages", () => {
+    const history = toHistoryMessages([
+      message("m1", "user", [{ type: "reasoning", text: "not mine" }]),
+      message("m2", "assistant", [{ type: "reasoning", text: "Interrupted", time: { start: 10 } }]),
+    ])
+
+    assert.deepStrictEqual(
+      history.map((m) => m.id),
+      ["m2"],
+    )
+    assert.deepStrictEqual(history[0].parts, [
+      { id: "m2_p0", type: "reasoning", text: "Interrupted", time: { start: 10 }, restored: true },
+    ])
+  })
+
+  test("toToolCard should map each tool state to the card status", () => {
+    const card = (state: any) => toToolCard({ id: "p1", sessionID: "ses_1", messageID: "m1", type: "tool", tool: "bash", state })
+
+    assert.deepStrictEqual(card({ status: "pending", input: { command: "ls" } }).state, {
+      status: "pending",
+      title: undefined,
+      input: { command: "ls" },
+      output: undefined,
+      error: undefined,
+      time: undefined,
+    })
+    assert.strictEqual(card({ status: "running", title: "ls", time: { start: 1 } }).state.status, "running")
+
+    const completed = card({ status: "completed", title: "ls", output: "a.ts", time: { start: 1, end: 2 } }).state
+    assert.deepStrictEqual([completed.status, completed.output, completed.time], ["completed", "a.ts", { start: 1, end: 2 }])
+
+    const failed = card({ status: "error", error: "exit 1", output: "partial" }).state
+    assert.deepStrictEqual([failed.status, failed.error, failed.output], ["error", "exit 1", undefined])
+  })
+
+  test("toToolCard should show unknown or missing states as pending", () => {
+    const base = { id: "p1", sessionID: "ses_1", messageID: "m1", type: "tool" }
+    assert.strictEqual(toToolCard({ ...base, tool: "read", state: { status: "weird" } }).state.status, "pending")
+    assert.deepStrictEqual(
+      [toToolCard(base).tool, toToolCard(base).state.status],
+      ["tool", "pending"],
+    )
+  })
+})
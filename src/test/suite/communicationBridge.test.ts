@@ -0,0 +1,49 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as sinon from "sinon"
+import * as vscode from "vscode"
+import { CommunicationBridge } from "../../ui/CommunicationBridge"
+
+suite("CommunicationBridge Test Suite", () => {
+  let root: string
+  let infoStub: sinon.SinonStub
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "opencode-apply-"))
+    infoStub = sinon.stub(vscode.window, "showInformationMessage")
+  })
+
+  teardown(() => {
+    infoStub.restore()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  test("applyCode should create a file that does not exist yet", async () => {
+    const target = path.join(root, "src", "new.ts")
+    infoStub.resolves("Apply")
+
+    const applied = await new CommunicationBridge().applyCode(target, "new.ts", "export const a = 1\n")
+
+    assert.strictEqual(applied, true)
+    assert.strictEqual(infoStub.firstCall.args[0], "Create new.ts?")
+    assert.strictEqual(fs.readFileSync(target, "utf-8"), "export const a = 1\n")
+  })
+
+  test("applyCode should leave a new file uncreated when the user cancels", async () => {
+    const target = path.join(root, "new.ts")
+    infoStub.resolves("Cancel")
+
+    assert.strictEqual(await new CommunicationBridge().applyCode(target, "new.ts", "x\n"), false)
+    assert.ok(!fs.existsSync(target))
+  })
+
+  test("applyCode should replace an existing file", async () => {
+    const target = path.join(root, "old.ts")
+    fs.writeFileSync(target, "before\n")
+
+    assert.strictEqual(await new CommunicationBridge().applyCode(target, "old.ts", "after\n", false), true)
+    assert.strictEqual(fs.readFileSync(target, "utf-8"), "after\n")
+  })
+})
@@ -0,0 +1,32 @@
+import * as assert from "assert"
+import { estimateTokens, parseLineRange, sliceLines, truncateContent } from "../../ui/ContextBudget"
+
+suite("ContextBudget Test Suite", () => {
+  test("should estimate about four characters per token", () => {
+    assert.strictEqual(estimateTokens(0), 0)
+    assert.strictEqual(estimateTokens(4000), 1000)
+    assert.strictEqual(estimateTokens(5), 2)
+  })
+
+  test("should slice 1-based inclusive line ranges", () => {
+    const text = "a\nb\nc\nd"
+    assert.strictEqual(sliceLines(text, 2, 3), "b\nc")
+    assert.strictEqual(sliceLines(text, 4), "d")
+    assert.strictEqual(sliceLines(text), text)
+  })
+
+  test("should truncate only past the limit", () => {
+    assert.deepStrictEqual(truncateContent("short", 10), { text: "short", truncated: false })
+    assert.deepStrictEqual(truncateContent("long text", 0), { text: "long text", truncated: false })
+    const cut = truncateContent("0123456789", 4)
+    assert.ok(cut.truncated)
+    assert.ok(cut.text.startsWith("0123\n\n[... Content truncated, total length: 10 chars"))
+  })
+
+  test("should parse typed line ranges", () => {
+    assert.deepStrictEqual(parseLineRange("10-80"), { lineStart: 10, lineEnd: 80 })
+    assert.deepStrictEqual(parseLineRange(" 7 "), { lineStart: 7, lineEnd: 7 })
+    assert.strictEqual(parseLineRange("80-10"), undefined)
+    assert.strictEqual(parseLineRange("abc"), undefined)
+  })
+})
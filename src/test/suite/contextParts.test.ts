@@ -0,0 +1,35 @@
+import * as assert from "assert"
+import { DIRECTORY_MIME, contextMime, inlineContextText, toFilePart } from "../../ui/ContextParts"
+
+suite("ContextParts Test Suite", () => {
+  test("should send a whole file as a text file part", () => {
+    const part = toFilePart({ type: "file", path: "src/app.ts" }, "/work/src/app.ts")
+
+    assert.deepStrictEqual(part, {
+      type: "file",
+      mime: "text/plain",
+      url: "file:///work/src/app.ts",
+      filename: "app.ts",
+    })
+  })
+
+  test("should carry the line range in the URL", () => {
+    const part = toFilePart({ type: "code", path: "src/app.ts", name: "app.ts:3-9", lineStart: 3, lineEnd: 9 }, "/work/src/app.ts")
+
+    assert.strictEqual(part.url, "file:///work/src/app.ts?start=3&end=9")
+    assert.strictEqual(part.filename, "app.ts:3-9")
+  })
+
+  test("should mark folders and binary files with their mime type", () => {
+    assert.strictEqual(toFilePart({ type: "folder", path: "src" }, "/work/src").mime, DIRECTORY_MIME)
+    assert.strictEqual(contextMime("/work/logo.PNG"), "image/png")
+  })
+
+  test("should inline text under a context header with the range and unsaved tag", () => {
+    assert.strictEqual(inlineContextText({ type: "file", path: "src/app.ts" }, "code"), "\n\n[Context: src/app.ts]\n```\ncode\n```")
+    assert.strictEqual(
+      inlineContextText({ type: "code", path: "src/app.ts", lineStart: 3, lineEnd: 9 }, "code", true),
+      "\n\n[Context: src/app.ts:3-9 (unsaved)]\n```\ncode\n```",
+    )
+  })
+})
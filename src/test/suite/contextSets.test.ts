@@ -0,0 +1,50 @@
+import * as assert from "assert"
+import { ContextSets } from "../../ui/ContextSets"
+import { MemoryMemento } from "./testUtils"
+
+const item = (path: string, extra: Record<string, any> = {}) => ({ id: path, type: "file" as const, path, name: path, ...extra })
+
+suite("ContextSets Test Suite", () => {
+  test("should save sets newest first and replace by name", async () => {
+    const sets = new ContextSets(new MemoryMemento())
+    await sets.save("api", [item("src/api.ts")])
+    await sets.save("ui", [item("src/ui.ts")])
+    await sets.save("api", [item("src/api.ts"), item("src/client.ts")])
+
+    assert.deepStrictEqual(
+      sets.list().map((s) => s.name),
+      ["api", "ui"],
+    )
+    assert.strictEqual(sets.get("api")!.items.length, 2)
+  })
+
+  test("should keep only the item fields and delete by name", async () => {
+    const sets = new ContextSets(new MemoryMemento())
+    await sets.save("pinned", [item("src/a.ts", { pinned: true, folderSummary: { entries: 1 } })])
+
+    const stored: Record<string, unknown> = { ...sets.get("pinned")!.items[0] }
+    assert.strictEqual(stored.path, "src/a.ts")
+    assert.ok(!("pinned" in stored) && !("folderSummary" in stored))
+
+    await sets.delete("pinned")
+    assert.deepStrictEqual(sets.list(), [])
+  })
+
+  test("should keep pinned items per session and drop a session left with none", async () => {
+    const state = new MemoryMemento()
+    const sets = new ContextSets(state)
+    await sets.savePinned("ses_1", [item("src/a.ts", { pinned: true })])
+    await sets.savePinned("ses_2", [item("src/b.ts")])
+
+    assert.deepStrictEqual(
+      sets.pinned("ses_1").map((i) => i.path),
+      ["src/a.ts"],
+    )
+    assert.ok(!("pinned" in sets.pinned("ses_1")[0]))
+    assert.deepStrictEqual(new ContextSets(state).pinned("ses_2").map((i) => i.path), ["src/b.ts"])
+
+    await sets.savePinned("ses_1", [])
+    assert.deepStrictEqual(sets.pinned("ses_1"), [])
+    assert.deepStrictEqual(Object.keys(state.get("opencode.context.pinned", {})), ["ses_2"])
+  })
+})
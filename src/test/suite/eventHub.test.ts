@@ -0,0 +1,72 @@
+import * as assert from "assert"
+import * as http from "http"
+import { AddressInfo } from "net"
+import { EventHub, EventSubscription } from "../../backend/EventHub"
+import { ServerEvent } from "../../backend/ServerEvents"
+import { waitFor } from "./testUtils"
+
+const EVENTS = [
+  { type: "server.connected", properties: {} },
+  { type: "message.part.updated", properties: { part: { id: "p1", messageID: "m1", sessionID: "ses_a" } } },
+  { type: "session.idle", properties: { sessionID: "ses_b" } },
+]
+
+suite("EventHub Test Suite", () => {
+  let server: http.Server
+  let baseUrl: string
+  let connections: number
+  let subscriptions: EventSubscription[]
+
+  setup(async () => {
+    connections = 0
+    subscriptions = []
+    server = http.createServer((_req, res) => {
+      connections++
+      res.writeHead(200, { "Content-Type": "text/event-stream" })
+      // Give every subscriber time to register before the events go out
+      setTimeout(() => {
+        for (const event of EVENTS) {
+          res.write(`data: ${JSON.stringify(event)}\n\n`)
+        }
+      }, 50)
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  teardown(async () => {
+    subscriptions.forEach((s) => s.dispose())
+    server.closeAllConnections()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  test("should share one connection and route events by session", async () => {
+    const seen: Record<string, string[]> = { a: [], b: [] }
+    const foreign: Record<string, string[]> = { a: [], b: [] }
+    const subscribe = (key: "a" | "b") =>
+      EventHub.forBackend(baseUrl).subscribe({
+        getSessionId: () => `ses_${key}`,
+        onEvent: (event: ServerEvent) => seen[key].push(event.type),
+        onForeignEvent: (sessionId: string) => foreign[key].push(sessionId),
+      })
+
+    subscriptions.push(subscribe("a"), subscribe("b"))
+
+    await waitFor(() => seen.a.length === 2 && seen.b.length === 2)
+    assert.strictEqual(connections, 1)
+    assert.deepStrictEqual(seen.a, ["server.connected", "message.part.updated"])
+    assert.deepStrictEqual(seen.b, ["server.connected", "session.idle"])
+    assert.deepStrictEqual(foreign.a, ["ses_b"])
+    assert.deepStrictEqual(foreign.b, ["ses_a"])
+  })
+
+  test("should drop the hub once the last subscriber leaves", () => {
+    const first = EventHub.forBackend(baseUrl)
+    const subscription = first.subscribe({ getSessionId: () => null, onEvent: () => {} })
+    assert.strictEqual(EventHub.forBackend(`${baseUrl}/`), first)
+
+    subscription.dispose()
+    assert.strictEqual(first.getState(), "offline")
+    assert.notStrictEqual(EventHub.forBackend(baseUrl), first)
+  })
+})
@@ -0,0 +1,105 @@
+import * as assert from "assert"
+import * as http from "http"
+import { AddressInfo } from "net"
+import { EventStreamClient, EventStreamState } from "../../backend/EventStreamClient"
+import { waitFor } from "./testUtils"
+
+suite("EventStreamClient Test Suite", () => {
+  let server: http.Server
+  let url: string
+  let client: EventStreamClient | undefined
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse, count: number) => void
+  let requestCount: number
+
+  setup(async () => {
+    requestCount = 0
+    server = http.createServer((req, res) => handler(req, res, ++requestCount))
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/event`
+  })
+
+  teardown(async () => {
+    client?.stop()
+    client = undefined
+    server.closeAllConnections()
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  test("should parse events split across chunks", async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" })
+      res.write('data: {"type":"server.connected","properties":{}}\n\ndata: {"type":"message.up')
+      res.write('dated","properties":{"info":{"id":"m1"}}}\n\n')
+    }
+
+    const events: string[] = []
+    client = new EventStreamClient(url)
+    client.setEventCallback((event) => events.push(event.type))
+    client.start()
+
+    await waitFor(() => events.length === 2)
+    assert.deepStrictEqual(events, ["server.connected", "message.updated"])
+    assert.strictEqual(client.getState(), "connected")
+  })
+
+  test("should reconnect with backoff after the stream ends", async () => {
+    handler = (_req, res, count) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" })
+      res.write(`data: {"type":"server.connected","properties":{"n":${count}}}\n\n`)
+      if (count === 1) {
+        res.end()
+      }
+    }
+
+    const states: EventStreamState[] = []
+    let reconnects = 0
+    client = new EventStreamClient(url, { initialDelayMs: 10 })
+    client.setStateChangeCallback((state) => states.push(state))
+    client.setReconnectCallback(() => reconnects++)
+    client.start()
+
+    await waitFor(() => reconnects === 1)
+    assert.deepStrictEqual(states, ["connecting", "connected", "retrying", "connected"])
+    assert.strictEqual(requestCount, 2)
+  })
+
+  test("should reconnect when a stream that sent heartbeats goes silent", async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" })
+      res.write(": heartbeat\n\n")
+    }
+
+    client = new EventStreamClient(url, { initialDelayMs: 10, idleTimeoutMs: 30 })
+    client.start()
+
+    await waitFor(() => requestCount >= 2)
+  })
+
+  test("should keep a quiet stream open when the backend sends no heartbeats", async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" })
+      res.write('data: {"type":"server.connected","properties":{}}\n\n')
+    }
+
+    client = new EventStreamClient(url, { initialDelayMs: 10, idleTimeoutMs: 30 })
+    client.start()
+
+    await waitFor(() => client!.getState() === "connected")
+    await new Promise((resolve) => setTimeout(resolve, 120))
+    assert.strictEqual(requestCount, 1)
+    assert.strictEqual(client.getState(), "connected")
+  })
+
+  test("should go offline after the retry limit", async () => {
+    handler = (_req, res) => {
+      res.writeHead(500)
+      res.end()
+    }
+
+    client = new EventStreamClient(url, { initialDelayMs: 5, maxRetries: 2 })
+    client.start()
+
+    await waitFor(() => client!.getState() === "offline")
+    assert.strictEqual(requestCount, 3)
+  })
+})
@@ -0,0 +1,84 @@
+import * as assert from "assert"
+import * as path from "path"
+import { isInside, parseFileBlocks, toFileChanges } from "../../ui/FileChanges"
+
+const ANSWER = [
+  "Update both files:",
+  "```ts src/a.ts",
+  "export const a = 1",
+  "```",
+  "```ts:src/b.ts",
+  "export const b = 2",
+  "```",
+  "An unrelated snippet:",
+  "```ts",
+  "a + b",
+  "```",
+  "```delete src/old.ts",
+  "```",
+  "",
+].join("\n")
+
+suite("FileChanges Test Suite", () => {
+  test("parseFileBlocks should keep only blocks that name a file", () => {
+    assert.deepStrictEqual(parseFileBlocks(ANSWER), [
+      { path: "src/a.ts", delete: false, code: "export const a = 1\n" },
+      { path: "src/b.ts", delete: false, code: "export const b = 2\n" },
+      { path: "src/old.ts", delete: true, code: "" },
+    ])
+  })
+
+  test("parseFileBlocks should keep the last block for a repeated path", () => {
+    const blocks = parseFileBlocks("```src/a.ts\nfirst\n```\n```src/a.ts\nsecond\n```\n")
+    assert.deepStrictEqual(
+      blocks.map((b) => b.code),
+      ["second\n"],
+    )
+  })
+
+  test("toFileChanges should resolve paths and tell modify from create", () => {
+    const root = path.join(path.sep, "ws")
+    const { changes, outside } = toFileChanges(parseFileBlocks(ANSWER), root, (filePath) => filePath.endsWith("a.ts"))
+
+    assert.deepStrictEqual(
+      changes.map((c) => [path.relative(root, c.filePath), c.action]),
+      [
+        [path.join("src", "a.ts"), "modify"],
+        [path.join("src", "b.ts"), "create"],
+        [path.join("src", "old.ts"), "delete"],
+      ],
+    )
+    assert.strictEqual(changes[2].content, undefined)
+    assert.deepStrictEqual(outside, [])
+  })
+
+  test("parseFileBlocks should only take words shaped like paths", () => {
+    const markdown = [
+      "```1.5\nversion\n```",
+      "```node.js\nrequire('x')\n```",
+      "```js server.js\nlisten()\n```",
+      "```text v1.5\nnotes\n```",
+      "```src/app\ncode\n```",
+      "",
+    ].join("\n")
+
+    assert.deepStrictEqual(
+      parseFileBlocks(markdown).map((b) => b.path),
+      ["server.js", "src/app"],
+    )
+  })
+
+  test("toFileChanges should leave out paths outside the workspace folder", () => {
+    const root = path.join(path.sep, "ws")
+    const blocks = parseFileBlocks("```ts ../../x.ts\nx\n```\n```ts src/ok.ts\nok\n```\n```ts /etc/passwd.txt\ny\n```\n")
+    const { changes, outside } = toFileChanges(blocks, root, () => false)
+
+    assert.deepStrictEqual(
+      changes.map((c) => c.filePath),
+      [path.join(root, "src", "ok.ts")],
+    )
+    assert.deepStrictEqual(outside, ["../../x.ts", "/etc/passwd.txt"])
+    assert.ok(isInside(root, path.join(root, "..ws", "a.ts")))
+    assert.ok(!isInside(root, root))
+  })
+})
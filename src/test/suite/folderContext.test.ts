@@ -0,0 +1,83 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { IgnoreRules, buildFolderContext, globToRegExp } from "../../ui/FolderContext"
+
+const OPTIONS = { exclude: [], maxDepth: 5, maxEntries: 100, includeContents: false, smallFileChars: 1000, contentBudget: 1000 }
+
+function writeTree(root: string, files: Record<string, string>) {
+  for (const [rel, content] of Object.entries(files)) {
+    const abs = path.join(root, rel)
+    fs.mkdirSync(path.dirname(abs), { recursive: true })
+    fs.writeFileSync(abs, content)
+  }
+}
+
+suite("FolderContext Test Suite", () => {
+  let root: string
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "opencode-folder-"))
+  })
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  test("globToRegExp should handle *, ** and braces", () => {
+    assert.ok(globToRegExp("**/node_modules").test("node_modules"))
+    assert.ok(globToRegExp("**/node_modules").test("a/b/node_modules"))
+    assert.ok(globToRegExp("src/*.{ts,js}").test("src/app.js"))
+    assert.ok(!globToRegExp("src/*.ts").test("src/lib/app.ts"))
+  })
+
+  test("IgnoreRules should apply gitignore semantics", () => {
+    const rules = new IgnoreRules(["**/*.log"])
+    rules.addGitignore("", "dist/\n*.tmp\n!keep.tmp\n/root-only.txt")
+    rules.addGitignore("pkg", "generated")
+
+    assert.ok(rules.ignores("dist", true))
+    assert.ok(!rules.ignores("dist", false))
+    assert.ok(rules.ignores("a/b/c.tmp", false))
+    assert.ok(!rules.ignores("a/keep.tmp", false))
+    assert.ok(rules.ignores("root-only.txt", false))
+    assert.ok(!rules.ignores("sub/root-only.txt", false))
+    assert.ok(rules.ignores("pkg/x/generated", true))
+    assert.ok(!rules.ignores("generated", true))
+    assert.ok(rules.ignores("logs/app.log", false))
+  })
+
+  test("should list the tree without ignored entries", async () => {
+    writeTree(root, {
+      ".gitignore": "build/\n",
+      "src/index.ts": "export {}",
+      "src/lib/util.ts": "export const x = 1",
+      "build/out.js": "",
+      "node_modules/dep/index.js": "",
+      "README.md": "# Readme",
+    })
+
+    const context = await buildFolderContext(root, { ...OPTIONS, workspaceRoot: root, exclude: ["**/node_modules"] })
+
+    assert.strictEqual(context.tree, ["src/", "  lib/", "    util.ts", "  index.ts", ".gitignore", "README.md"].join("\n"))
+    assert.deepStrictEqual(context.summary, { entries: 6, files: [], truncated: false })
+  })
+
+  test("should cap depth and entries and include small files within the budget", async () => {
+    writeTree(root, {
+      "a/b/c/deep.ts": "deep",
+      "small.txt": "tiny",
+      "large.txt": "x".repeat(2000),
+      "z1.txt": "1",
+      "z2.txt": "2",
+    })
+
+    const capped = await buildFolderContext(root, { ...OPTIONS, maxDepth: 2, maxEntries: 4 })
+    assert.strictEqual(capped.tree, ["a/", "  b/ …", "large.txt", "small.txt"].join("\n"))
+    assert.strictEqual(capped.summary.truncated, true)
+
+    const withContents = await buildFolderContext(root, { ...OPTIONS, maxDepth: 1, includeContents: true, contentBudget: 5 })
+    assert.deepStrictEqual(withContents.summary.files, ["small.txt", "z1.txt"])
+  })
+})
@@ -0,0 +1,82 @@
+import * as assert from "assert"
+import { applyHunks, diffLines, splitLines, toHunks } from "../../ui/LineDiff"
+
+const text = (...lines: string[]) => lines.join("\n") + "\n"
+const render = (lines: ReturnType<typeof diffLines>) =>
+  lines.map((l) => `${l.type === "added" ? "+" : l.type === "removed" ? "-" : " "}${l.content}`)
+
+suite("LineDiff Test Suite", () => {
+  test("splitLines should ignore the final line break and CRLF", () => {
+    assert.deepStrictEqual(splitLines("a\r\nb\r\n"), ["a", "b"])
+    assert.deepStrictEqual(splitLines(""), [])
+  })
+
+  test("diffLines should find a minimal edit script", () => {
+    const lines = diffLines(text("a", "b", "c", "d"), text("a", "x", "c", "d", "e"))
+
+    assert.deepStrictEqual(render(lines), [" a", "-b", "+x", " c", " d", "+e"])
+    assert.deepStrictEqual(
+      lines.map((l) => [l.oldLine, l.newLine]),
+      [
+        [1, 1],
+        [2, undefined],
+        [undefined, 2],
+        [3, 3],
+        [4, 4],
+        [undefined, 5],
+      ],
+    )
+  })
+
+  test("diffLines should treat a missing file as all additions", () => {
+    assert.deepStrictEqual(render(diffLines("", text("one", "two"))), ["+one", "+two"])
+  })
+
+  test("toHunks should keep context around changes and merge close ones", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+    const proposed = [...old]
+    proposed[1] = "changed 2"
+    proposed[4] = "changed 5"
+    proposed[16] = "changed 17"
+
+    const hunks = toHunks(diffLines(text(...old), text(...proposed)), 2)
+
+    assert.strictEqual(hunks.length, 2)
+    assert.deepStrictEqual(
+      hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines]),
+      [
+        [1, 7, 1, 7],
+        [15, 5, 15, 5],
+      ],
+    )
+    assert.strictEqual(hunks[1].lines[0].content, "line 15")
+  })
+
+  test("toHunks should return nothing for identical texts", () => {
+    assert.deepStrictEqual(toHunks(diffLines(text("same"), text("same"))), [])
+  })
+
+  test("applyHunks should merge only the accepted hunks", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+    const proposed = [...old]
+    proposed[1] = "changed 2"
+    proposed.splice(16, 1, "changed 17", "inserted")
+    const hunks = toHunks(diffLines(text(...old), text(...proposed)), 2)
+
+    const secondOnly = [...old]
+    secondOnly.splice(16, 1, "changed 17", "inserted")
+    assert.strictEqual(applyHunks(text(...old), [hunks[1]]), text(...secondOnly))
+    assert.strictEqual(applyHunks(text(...old), hunks), text(...proposed))
+    assert.strictEqual(applyHunks(text(...old), []), text(...old))
+  })
+
+  test("applyHunks should keep CRLF line endings", () => {
+    const hunks = toHunks(diffLines("a\nb\n", "a\nc\n"))
+    assert.strictEqual(applyHunks("a\r\nb\r\n", hunks), "a\r\nc\r\n")
+  })
+
+  test("applyHunks should refuse a hunk whose lines changed", () => {
+    const hunks = toHunks(diffLines(text("a", "b", "c"), text("a", "x", "c")))
+    assert.throws(() => applyHunks(text("a", "edited", "c"), hunks), /no longer matches/)
+  })
+})
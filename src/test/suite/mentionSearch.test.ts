@@ -0,0 +1,31 @@
+import * as assert from "assert"
+import { fuzzyScore, rankMatches } from "../../ui/MentionSearch"
+
+suite("MentionSearch Test Suite", () => {
+  test("fuzzyScore should require the query characters in order", () => {
+    assert.ok(fuzzyScore("wvc", "src/ui/WebviewController.ts")! > 0)
+    assert.strictEqual(fuzzyScore("xyz", "src/ui/WebviewController.ts"), undefined)
+    assert.strictEqual(fuzzyScore("", "anything"), 0)
+  })
+
+  test("rankMatches should prefer file name and consecutive matches", () => {
+    const paths = ["src/webview/components/chat-view.ts", "docs/chat/overview.md", "src/ui/ChatHistory.ts"]
+
+    assert.strictEqual(rankMatches("chatview", paths, (p) => p)[0], "src/webview/components/chat-view.ts")
+    assert.strictEqual(rankMatches("chat", paths, (p) => p)[0], "src/ui/ChatHistory.ts")
+    assert.strictEqual(rankMatches("", paths, (p) => p, 2).length, 2)
+  })
+
+  test("rankMatches should keep weak matches on long paths and break ties by length", () => {
+    // One character matched mid-segment on a path over 100 characters long
+    const long = `${"deeply/nested/".repeat(10)}aq/index.ts`
+    assert.deepStrictEqual(
+      rankMatches("q", [long], (p) => p),
+      [long],
+    )
+    assert.deepStrictEqual(
+      rankMatches("a", ["lib/x/a.ts", "a.ts", "src/a.ts"], (p) => p),
+      ["a.ts", "src/a.ts", "lib/x/a.ts"],
+    )
+  })
+})
@@ -0,0 +1,66 @@
+import * as assert from "assert"
+import { MessageStore, messageText } from "../../ui/MessageStore"
+
+function part(id: string, messageID: string, extra: Record<string, any> = {}) {
+  return { id, messageID, sessionID: "ses_1", type: "text", ...extra }
+}
+
+suite("MessageStore Test Suite", () => {
+  test("should append deltas when the part carries no full text", () => {
+    const store = new MessageStore()
+    store.updatePart(part("p1", "m1"), "Hello")
+    store.updatePart(part("p1", "m1"), ", ")
+    const message = store.updatePart(part("p1", "m1"), "world")
+
+    assert.strictEqual(messageText(message), "Hello, world")
+  })
+
+  test("should prefer the full part text over the delta", () => {
+    const store = new MessageStore()
+    store.updatePart(part("p1", "m1", { text: "Hel" }), "Hel")
+    const message = store.updatePart(part("p1", "m1", { text: "Hello" }), "lo")
+
+    assert.strictEqual(messageText(message), "Hello")
+  })
+
+  test("should keep parts in first-seen order and messages apart", () => {
+    const store = new MessageStore()
+    store.updatePart(part("p1", "m1", { text: "first " }))
+    store.updatePart(part("p2", "m1", { type: "tool", tool: "read" }))
+    store.updatePart(part("p3", "m1", { text: "second" }))
+    store.updatePart(part("p1", "m1", { text: "first, updated " }))
+    store.updatePart(part("q1", "m2", { text: "other" }))
+
+    const m1 = store.getMessage("m1")!
+    assert.deepStrictEqual(
+      m1.parts.map((p) => p.id),
+      ["p1", "p2", "p3"],
+    )
+    assert.strictEqual(messageText(m1), "first, updated second")
+    assert.strictEqual(messageText(store.getMessage("m2")!), "other")
+  })
+
+  test("should attach message info to parts that arrived first", () => {
+    const store = new MessageStore()
+    store.updatePart(part("p1", "m1", { text: "hi" }))
+    const message = store.updateMessage({ id: "m1", sessionID: "ses_1", role: "assistant", time: { created: 5 } })
+
+    assert.strictEqual(message.role, "assistant")
+    assert.strictEqual(message.parts.length, 1)
+  })
+
+  test("load should replace the store with a transcript", () => {
+    const store = new MessageStore()
+    store.updatePart(part("stale", "old"))
+    store.load([
+      {
+        info: { id: "m1", sessionID: "ses_1", role: "assistant", time: { created: 1 } },
+        parts: [part("p1", "m1", { text: "restored" })],
+      },
+    ])
+
+    assert.strictEqual(store.getMessage("old"), undefined)
+    assert.strictEqual(messageText(store.getMessage("m1")!), "restored")
+    assert.strictEqual(store.getMessages().length, 1)
+  })
+})
@@ -0,0 +1,49 @@
+import * as assert from "assert"
+import { ModelPreferences, toModelOptions } from "../../ui/ModelPreferences"
+import { MemoryMemento } from "./testUtils"
+
+suite("ModelPreferences Test Suite", () => {
+  test("toModelOptions should flatten providers and expose variants", () => {
+    const options = toModelOptions({
+      providers: [
+        {
+          id: "openai",
+          name: "OpenAI",
+          models: { "gpt-5": { id: "gpt-5", name: "GPT-5", variants: { low: {}, high: {} }, limit: { context: 400000, output: 128000 } } },
+        },
+        { id: "anthropic", name: "Anthropic", models: { sonnet: { id: "sonnet", name: "Sonnet" } } },
+      ],
+      default: { anthropic: "sonnet" },
+    })
+
+    assert.deepStrictEqual(
+      options.map((o) => `${o.providerID}/${o.modelID}`),
+      ["anthropic/sonnet", "openai/gpt-5"],
+    )
+    assert.deepStrictEqual(options[1].variants, ["low", "high"])
+    assert.strictEqual(options[1].contextLimit, 400000)
+  })
+
+  test("should toggle favourites", async () => {
+    const prefs = new ModelPreferences(new MemoryMemento())
+    const model = { providerID: "openai", modelID: "gpt-5", variant: "high" }
+
+    await prefs.toggleFavourite(model)
+    assert.deepStrictEqual(prefs.getFavourites(), [{ providerID: "openai", modelID: "gpt-5" }])
+
+    await prefs.toggleFavourite(model)
+    assert.deepStrictEqual(prefs.getFavourites(), [])
+  })
+
+  test("should keep recent models unique, newest first and capped", async () => {
+    const prefs = new ModelPreferences(new MemoryMemento())
+    for (const id of ["a", "b", "c", "d", "e", "f", "b"]) {
+      await prefs.addRecent({ providerID: "p", modelID: id })
+    }
+
+    assert.deepStrictEqual(
+      prefs.getRecent().map((m) => m.modelID),
+      ["b", "f", "e", "d", "c"],
+    )
+  })
+})
@@ -0,0 +1,122 @@
+import * as assert from "assert"
+import * as sinon from "sinon"
+import { OpenCodeClient } from "../../backend/OpenCodeClient"
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(body === undefined ? "" : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+suite("OpenCodeClient Test Suite", () => {
+  let fetchStub: sinon.SinonStub
+
+  setup(() => {
+    fetchStub = sinon.stub(globalThis, "fetch")
+  })
+
+  teardown(() => {
+    fetchStub.restore()
+  })
+
+  test("fromConnection should use the origin of uiBase", () => {
+    const client = OpenCodeClient.fromConnection({
+      port: 4096,
+      uiBase: "http://127.0.0.1:4096/app?v=1.0.0",
+      binaryPath: "opencode",
+      reused: true,
+    })
+    assert.strictEqual(client.getBaseUrl(), "http://127.0.0.1:4096")
+  })
+
+  test("listSessions should sort by last updated time, newest first", async () => {
+    fetchStub.resolves(
+      jsonResponse([
+        { id: "old", title: "Old", time: { created: 1, updated: 10 } },
+        { id: "new", title: "New", time: { created: 2, updated: 30 } },
+        { id: "mid", title: "Mid", time: { created: 3, updated: 20 } },
+      ]),
+    )
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096/")
+    const sessions = await client.listSessions()
+
+    assert.deepStrictEqual(
+      sessions.map((s) => s.id),
+      ["new", "mid", "old"],
+    )
+    assert.strictEqual(fetchStub.firstCall.args[0], "http://127.0.0.1:4096/session")
+  })
+
+  test("renameSession should PATCH the session with the new title", async () => {
+    fetchStub.resolves(jsonResponse({ id: "abc", title: "Renamed", time: { created: 1, updated: 2 } }))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    const session = await client.renameSession("abc", "Renamed")
+
+    const [url, init] = fetchStub.firstCall.args
+    assert.strictEqual(url, "http://127.0.0.1:4096/session/abc")
+    assert.strictEqual(init.method, "PATCH")
+    assert.deepStrictEqual(JSON.parse(init.body), { title: "Renamed" })
+    assert.strictEqual(session.title, "Renamed")
+  })
+
+  test("deleteSession should accept an empty response body", async () => {
+    fetchStub.resolves(new Response("", { status: 200 }))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    await client.deleteSession("abc")
+
+    assert.strictEqual(fetchStub.firstCall.args[1].method, "DELETE")
+  })
+
+  test("abortSession should POST to the session abort endpoint", async () => {
+    fetchStub.resolves(jsonResponse(true))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    await client.abortSession("ses 1")
+
+    const [url, init] = fetchStub.firstCall.args
+    assert.strictEqual(url, "http://127.0.0.1:4096/session/ses%201/abort")
+    assert.strictEqual(init.method, "POST")
+  })
+
+  test("respondPermission should POST the response for the permission", async () => {
+    fetchStub.resolves(jsonResponse(true))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    await client.respondPermission("ses_1", "per_1", "always")
+
+    const [url, init] = fetchStub.firstCall.args
+    assert.strictEqual(url, "http://127.0.0.1:4096/session/ses_1/permissions/per_1")
+    assert.deepStrictEqual(JSON.parse(init.body), { response: "always" })
+  })
+
+  test("supportsFileParts should look for the file part schema and fall back on errors", async () => {
+    fetchStub.onFirstCall().resolves(jsonResponse({ components: { schemas: { FilePartInput: {} } } }))
+    fetchStub.onSecondCall().resolves(jsonResponse({}, 404))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    assert.strictEqual(await client.supportsFileParts(), true)
+    assert.strictEqual(await client.supportsFileParts(), false)
+    assert.strictEqual(fetchStub.firstCall.args[0], "http://127.0.0.1:4096/doc")
+  })
+
+  test("listAgents should GET the agent list and tolerate an empty body", async () => {
+    fetchStub.onFirstCall().resolves(jsonResponse([{ name: "build", mode: "primary" }]))
+    fetchStub.onSecondCall().resolves(new Response("", { status: 200 }))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    assert.deepStrictEqual(await client.listAgents(), [{ name: "build", mode: "primary" }])
+    assert.deepStrictEqual(await client.listAgents(), [])
+    assert.strictEqual(fetchStub.firstCall.args[0], "http://127.0.0.1:4096/agent")
+  })
+
+  test("should throw on non-OK responses", async () => {
+    fetchStub.resolves(jsonResponse({ error: "missing" }, 404))
+
+    const client = new OpenCodeClient("http://127.0.0.1:4096")
+    await assert.rejects(() => client.createSession("x"), /POST \/session failed: 404/)
+  })
+})
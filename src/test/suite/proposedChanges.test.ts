@@ -0,0 +1,123 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as sinon from "sinon"
+import * as vscode from "vscode"
+import { PROPOSED_SCHEME, Proposal, proposedChanges } from "../../ui/ProposedChanges"
+
+function proposedTabs(): vscode.Tab[] {
+  return vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .filter((tab) => {
+      const input = tab.input
+      const uri = input instanceof vscode.TabInputTextDiff ? input.modified : input instanceof vscode.TabInputText ? input.uri : undefined
+      return uri?.scheme === PROPOSED_SCHEME
+    })
+}
+
+suite("ProposedChanges Test Suite", () => {
+  let root: string
+  let provider: vscode.Disposable
+  let applied: string[]
+
+  const proposal = (filePath: string, code: string, result = true): Proposal => ({
+    filePath,
+    fileName: path.basename(filePath),
+    code,
+    apply: async (text) => {
+      applied.push(text)
+      return result
+    },
+  })
+  const proposedUri = (filePath: string) => vscode.Uri.file(filePath).with({ scheme: PROPOSED_SCHEME })
+
+  suiteSetup(() => {
+    provider = vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, proposedChanges)
+  })
+
+  suiteTeardown(() => {
+    provider.dispose()
+  })
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "opencode-proposed-"))
+    applied = []
+  })
+
+  teardown(async () => {
+    await vscode.commands.executeCommand("workbench.action.closeAllEditors")
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  test("open should diff an existing file against the proposed code", async () => {
+    const filePath = path.join(root, "a.ts")
+    fs.writeFileSync(filePath, "before\n")
+
+    await proposedChanges.open(proposal(filePath, "after\n"))
+
+    const tabs = proposedTabs()
+    assert.strictEqual(tabs.length, 1)
+    assert.ok(tabs[0].input instanceof vscode.TabInputTextDiff)
+    assert.strictEqual(proposedChanges.provideTextDocumentContent(proposedUri(filePath)), "after\n")
+  })
+
+  test("open should show the proposed document alone for a new file", async () => {
+    const filePath = path.join(root, "new.ts")
+
+    await proposedChanges.open(proposal(filePath, "created\n"))
+
+    assert.strictEqual(vscode.window.activeTextEditor?.document.uri.toString(), proposedUri(filePath).toString())
+    assert.strictEqual(vscode.window.activeTextEditor?.document.getText(), "created\n")
+  })
+
+  test("accept should apply the proposed code and close its editor", async () => {
+    const filePath = path.join(root, "a.ts")
+    fs.writeFileSync(filePath, "before\n")
+    await proposedChanges.open(proposal(filePath, "after\n"))
+
+    await proposedChanges.accept(proposedUri(filePath))
+
+    assert.deepStrictEqual(applied, ["after\n"])
+    assert.strictEqual(proposedTabs().length, 0)
+    assert.strictEqual(proposedChanges.provideTextDocumentContent(proposedUri(filePath)), "")
+  })
+
+  test("accept should keep the proposal open when applying fails", async () => {
+    const filePath = path.join(root, "new.ts")
+    await proposedChanges.open(proposal(filePath, "created\n", false))
+
+    await proposedChanges.accept(proposedUri(filePath))
+
+    assert.deepStrictEqual(applied, ["created\n"])
+    assert.strictEqual(proposedTabs().length, 1)
+  })
+
+  test("accept should not guess the proposal from the focused editor", async () => {
+    const filePath = path.join(root, "new.ts")
+    await proposedChanges.open(proposal(filePath, "created\n"))
+    const warning = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined)
+
+    try {
+      await proposedChanges.accept()
+    } finally {
+      warning.restore()
+    }
+
+    assert.deepStrictEqual(applied, [])
+    assert.ok(warning.calledOnce)
+    assert.strictEqual(proposedTabs().length, 1)
+  })
+
+  test("reject should close the proposal without applying it", async () => {
+    const filePath = path.join(root, "a.ts")
+    fs.writeFileSync(filePath, "before\n")
+    await proposedChanges.open(proposal(filePath, "after\n"))
+
+    await proposedChanges.reject(proposedUri(filePath))
+
+    assert.deepStrictEqual(applied, [])
+    assert.strictEqual(proposedTabs().length, 0)
+    assert.strictEqual(fs.readFileSync(filePath, "utf-8"), "before\n")
+  })
+})
@@ -0,0 +1,25 @@
+import * as assert from "assert"
+import { getEventSessionId } from "../../backend/ServerEvents"
+
+suite("ServerEvents Test Suite", () => {
+  test("should read the session of message and part events", () => {
+    assert.strictEqual(
+      getEventSessionId({ type: "message.updated", properties: { info: { id: "msg_1", sessionID: "ses_a" } } }),
+      "ses_a",
+    )
+    assert.strictEqual(
+      getEventSessionId({ type: "message.part.updated", properties: { part: { id: "prt_1", sessionID: "ses_b" } } }),
+      "ses_b",
+    )
+  })
+
+  test("should read sessionID from flat and session events", () => {
+    assert.strictEqual(getEventSessionId({ type: "session.idle", properties: { sessionID: "ses_c" } }), "ses_c")
+    assert.strictEqual(getEventSessionId({ type: "session.updated", properties: { info: { id: "ses_d" } } }), "ses_d")
+  })
+
+  test("should treat events without a session as global", () => {
+    assert.strictEqual(getEventSessionId({ type: "server.connected", properties: {} }), undefined)
+    assert.strictEqual(getEventSessionId({ type: "chat.response", text: "hi" }), undefined)
+  })
+})
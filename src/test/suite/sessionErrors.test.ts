@@ -0,0 +1,32 @@
+import * as assert from "assert"
+import { describeSessionError } from "../../ui/SessionErrors"
+
+suite("SessionErrors Test Suite", () => {
+  test("should categorise provider API errors and rate limits", () => {
+    assert.deepStrictEqual(describeSessionError({ name: "APIError", data: { message: "Overloaded", statusCode: 529 } }), {
+      category: "provider",
+      message: "Overloaded (HTTP 529)",
+      name: "APIError",
+    })
+    assert.strictEqual(
+      describeSessionError({ name: "APIError", data: { message: "Too many requests", statusCode: 429 } }).category,
+      "rate_limit",
+    )
+  })
+
+  test("should name the provider on auth errors", () => {
+    const error = describeSessionError({ name: "ProviderAuthError", data: { providerID: "anthropic", message: "Invalid API key" } })
+
+    assert.strictEqual(error.category, "auth")
+    assert.strictEqual(error.message, "anthropic: Invalid API key")
+  })
+
+  test("should fall back to the error name for unknown payloads", () => {
+    assert.deepStrictEqual(describeSessionError({ name: "UnknownError", data: {} }), {
+      category: "unknown",
+      message: "UnknownError",
+      name: "UnknownError",
+    })
+    assert.strictEqual(describeSessionError(undefined).message, "Unknown error")
+  })
+})
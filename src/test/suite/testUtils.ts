@@ -0,0 +1,43 @@
+import * as vscode from "vscode"
+
+/**
+ * Helpers shared by the test suites
+ */
+
+/**
+ * Resolve once `condition` holds, polling every few milliseconds
+ */
+export function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now()
+    const check = () => {
+      if (condition()) {
+        resolve()
+      } else if (Date.now() - started > timeoutMs) {
+        reject(new Error("Timed out waiting for condition"))
+      } else {
+        setTimeout(check, 5)
+      }
+    }
+    check()
+  })
+}
+
+/**
+ * In-memory stand-in for globalState / workspaceState
+ */
+export class MemoryMemento implements vscode.Memento {
+  private values = new Map<string, any>()
+
+  keys(): readonly string[] {
+    return [...this.values.keys()]
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return this.values.has(key) ? this.values.get(key) : (defaultValue as T)
+  }
+
+  async update(key: string, value: any): Promise<void> {
+    this.values.set(key, value)
+  }
+}
@@ -0,0 +1,61 @@
+import * as assert from "assert"
+import { ContextSnapshots } from "../../ui/ContextSnapshots"
+import { CONFLICT_MARKERS, mergeThreeWay } from "../../ui/ThreeWayMerge"
+
+const text = (...lines: string[]) => lines.join("\n") + "\n"
+const BASE = text("one", "two", "three", "four", "five", "six", "seven", "eight")
+
+suite("ThreeWayMerge Test Suite", () => {
+  test("should combine edits that do not overlap", () => {
+    const current = text("one", "TWO (mine)", "three", "four", "five", "six", "seven", "eight")
+    const proposed = text("one", "two", "three", "four", "five", "six", "SEVEN (agent)", "eight", "nine")
+
+    assert.deepStrictEqual(mergeThreeWay(BASE, current, proposed), {
+      text: text("one", "TWO (mine)", "three", "four", "five", "six", "SEVEN (agent)", "eight", "nine"),
+      conflicts: 0,
+    })
+  })
+
+  test("should take an identical change from both sides once", () => {
+    const same = text("one", "two", "3", "four", "five", "six", "seven", "eight")
+    assert.deepStrictEqual(mergeThreeWay(BASE, same, same), { text: same, conflicts: 0 })
+  })
+
+  test("should mark overlapping edits as a conflict", () => {
+    const current = text("one", "two", "mine", "four", "five", "six", "seven", "eight")
+    const proposed = text("one", "two", "theirs", "four", "five", "six", "seven", "eight")
+
+    const result = mergeThreeWay(BASE, current, proposed)
+    assert.strictEqual(result.conflicts, 1)
+    assert.strictEqual(
+      result.text,
+      text(
+        "one",
+        "two",
+        CONFLICT_MARKERS.current,
+        "mine",
+        CONFLICT_MARKERS.separator,
+        "theirs",
+        CONFLICT_MARKERS.proposed,
+        "four",
+        "five",
+        "six",
+        "seven",
+        "eight",
+      ),
+    )
+  })
+
+  test("ContextSnapshots should return the copy sent before the answer", () => {
+    const snapshots = new ContextSnapshots()
+    snapshots.record("/ws/a.ts", "v1", 100)
+    snapshots.record("/ws/a.ts", "v1", 150)
+    snapshots.record("/ws/a.ts", "v2", 200)
+
+    assert.strictEqual(snapshots.baseFor("/ws/a.ts", 120)?.content, "v1")
+    assert.strictEqual(snapshots.baseFor("/ws/a.ts", 170)?.content, "v1")
+    assert.strictEqual(snapshots.baseFor("/ws/a.ts", 250)?.content, "v2")
+    assert.strictEqual(snapshots.baseFor("/ws/a.ts", 50), undefined)
+    assert.strictEqual(snapshots.baseFor("/ws/b.ts"), undefined)
+  })
+})
@@ -0,0 +1,35 @@
+import * as assert from "assert"
+import { messageUsage, sumUsage } from "../../ui/Usage"
+
+function assistant(id: string, cost: number, tokens?: any) {
+  return { id, sessionID: "ses_1", role: "assistant" as const, time: { created: 1 }, cost, tokens }
+}
+
+suite("Usage Test Suite", () => {
+  test("should read tokens and cost from assistant info", () => {
+    const usage = messageUsage(assistant("m1", 0.02, { input: 100, output: 20, reasoning: 5, cache: { read: 300, write: 10 } }))
+
+    assert.deepStrictEqual(usage, {
+      tokens: { input: 100, output: 20, reasoning: 5, cacheRead: 300, cacheWrite: 10 },
+      cost: 0.02,
+    })
+  })
+
+  test("should ignore user messages and assistant messages without tokens yet", () => {
+    assert.strictEqual(messageUsage({ id: "m1", sessionID: "ses_1", role: "user", time: { created: 1 } }), undefined)
+    assert.strictEqual(messageUsage(assistant("m2", 0)), undefined)
+  })
+
+  test("should sum usage across messages", () => {
+    const total = sumUsage([
+      messageUsage(assistant("m1", 0.5, { input: 10, output: 1, reasoning: 0, cache: { read: 0, write: 0 } })),
+      undefined,
+      messageUsage(assistant("m2", 0.25, { input: 5, output: 2, reasoning: 3, cache: { read: 7, write: 1 } })),
+    ])
+
+    assert.deepStrictEqual(total, {
+      tokens: { input: 15, output: 3, reasoning: 3, cacheRead: 7, cacheWrite: 1 },
+      cost: 0.75,
+    })
+  })
+})
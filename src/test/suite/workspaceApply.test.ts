@@ -0,0 +1,88 @@
+import * as assert from "assert"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as sinon from "sinon"
+import * as vscode from "vscode"
+import { readCurrentText, workspaceApply } from "../../ui/WorkspaceApply"
+
+suite("WorkspaceApply Test Suite", () => {
+  let root: string
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "opencode-workspace-apply-"))
+  })
+
+  teardown(async () => {
+    await vscode.commands.executeCommand("workbench.action.closeAllEditors")
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  test("apply should create a file and save it", async () => {
+    const filePath = path.join(root, "src", "new.ts")
+
+    assert.strictEqual(await workspaceApply.apply([{ filePath, action: "create", content: "created\n" }], "new.ts"), true)
+    assert.strictEqual(fs.readFileSync(filePath, "utf-8"), "created\n")
+  })
+
+  test("apply should replace a file's contents", async () => {
+    const filePath = path.join(root, "a.ts")
+    fs.writeFileSync(filePath, "before\n")
+
+    assert.strictEqual(await workspaceApply.apply([{ filePath, action: "modify", content: "after\n" }], "a.ts"), true)
+    assert.strictEqual(fs.readFileSync(filePath, "utf-8"), "after\n")
+  })
+
+  test("apply should delete a file", async () => {
+    const filePath = path.join(root, "old.ts")
+    fs.writeFileSync(filePath, "old\n")
+
+    assert.strictEqual(await workspaceApply.apply([{ filePath, action: "delete" }], "old.ts"), true)
+    assert.ok(!fs.existsSync(filePath))
+  })
+
+  test("apply should leave unsaved edits unsaved when asked to", async () => {
+    const filePath = path.join(root, "a.ts")
+    fs.writeFileSync(filePath, "before\n")
+
+    await workspaceApply.apply([{ filePath, action: "modify", content: "draft\n" }], "a.ts", { save: false })
+
+    assert.strictEqual(fs.readFileSync(filePath, "utf-8"), "before\n")
+    assert.strictEqual(await readCurrentText(vscode.Uri.file(filePath)), "draft\n")
+  })
+
+  test("undoLast should restore the contents from before the apply", async () => {
+    const modified = path.join(root, "a.ts")
+    const created = path.join(root, "b.ts")
+    fs.writeFileSync(modified, "before\n")
+
+    await workspaceApply.apply([{ filePath: modified, action: "modify", content: "after\n" }], "a.ts")
+    await workspaceApply.undoLast()
+    await workspaceApply.apply([{ filePath: created, action: "create", content: "new\n" }], "b.ts")
+    await workspaceApply.undoLast()
+
+    assert.strictEqual(fs.readFileSync(modified, "utf-8"), "before\n")
+    assert.ok(!fs.existsSync(created))
+  })
+
+  test("undoLast should ask before dropping edits made after the apply", async () => {
+    const filePath = path.join(root, "a.ts")
+    fs.writeFileSync(filePath, "before\n")
+    await workspaceApply.apply([{ filePath, action: "modify", content: "after\n" }], "a.ts")
+    // A later edit in the editor, left unsaved
+    const uri = vscode.Uri.file(filePath)
+    const edit = new vscode.WorkspaceEdit()
+    edit.insert(uri, new vscode.Position(0, 0), "edited later\n")
+    await vscode.workspace.applyEdit(edit)
+
+    const warning = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined)
+    try {
+      await workspaceApply.undoLast()
+    } finally {
+      warning.restore()
+    }
+
+    assert.ok(warning.calledOnce)
+    assert.strictEqual(await readCurrentText(uri), "edited later\nafter\n")
+  })
+})
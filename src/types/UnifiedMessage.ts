@@ -1,3 +1,9 @@
+import type { HistoryMessage } from "../ui/ChatHistory"
+import type { MessagePart } from "../backend/OpenCodeClient"
+import type { ModelOption, ModelRef } from "../ui/ModelPreferences"
+import type { MessageUsage } from "../ui/Usage"
+import type { DiffHunk } from "../ui/LineDiff"
+
 /**
  * Unified message type definitions for VSCode plugin communication
  * These match the message format expected by the web UI MessageDispatcher
@@ -56,6 +62,174 @@ export interface DiffShowMessage extends BaseMessage {
   type: "diff.show"
   content: string
   messageId?: string
+  filePath?: string
+  fileName?: string
+  // Proposed code taken from the message and the target file's current text
+  code?: string
+  original?: string
+  newFile?: boolean
+  // Creation time of the answer; picks the context snapshot it was based on
+  messageTime?: number
+  // The file changed since it was sent: code is the clean three-way merge, or the merge had conflicts
+  merged?: boolean
+  conflicts?: number
+  hunks?: DiffHunk[]
+}
+
+export interface SessionSummary {
+  id: string
+  title: string
+  updated: number
+}
+
+export interface SessionStateMessage extends BaseMessage {
+  type: "session.state"
+  sessions: SessionSummary[]
+  activeSessionId: string | null
+}
+
+export interface ChatHistoryMessage extends BaseMessage {
+  type: "chat.history"
+  sessionId: string
+  messages: HistoryMessage[]
+}
+
+export interface ChatMessageUpdate extends BaseMessage {
+  type: "chat.message"
+  sessionId: string
+  message: {
+    id: string
+    role: "assistant"
+    created: number
+    completed?: number
+    parts: MessagePart[]
+    usage?: MessageUsage
+  }
+}
+
+export interface PermissionRequestMessage extends BaseMessage {
+  type: "permission.request"
+  sessionId: string
+  permission: {
+    id: string
+    type: string
+    title: string
+    command?: string
+    highRisk: boolean
+  }
+}
+
+export interface PermissionResolvedMessage extends BaseMessage {
+  type: "permission.resolved"
+  permissionId: string
+  response?: string
+}
+
+export interface SessionActivityMessage extends BaseMessage {
+  type: "session.activity"
+  sessionIds: string[]
+}
+
+export interface ConnectionStreamMessage extends BaseMessage {
+  type: "connection.stream"
+  state: "connecting" | "connected" | "retrying" | "offline"
+  retryInMs?: number
+}
+
+export interface ModelStateMessage extends BaseMessage {
+  type: "model.state"
+  models: ModelOption[]
+  favourites: ModelRef[]
+  recent: ModelRef[]
+  selected: ModelRef | null
+  defaultModel: ModelRef | null
+}
+
+export interface AgentStateMessage extends BaseMessage {
+  type: "agent.state"
+  agents: Array<{ name: string; description?: string }>
+  selected: string | null
+}
+
+export interface ChatErrorMessage extends BaseMessage {
+  type: "chat.error"
+  sessionId: string | null
+  error: { category: string; message: string }
+  // The last prompt can be resent with the same context items
+  canRetry: boolean
+}
+
+export interface ContextFolderSummaryMessage extends BaseMessage {
+  type: "context.folderSummary"
+  // Context item (chip) id
+  id: string
+  summary: { entries: number; files: string[]; truncated: boolean }
+}
+
+export interface ContextEstimatesMessage extends BaseMessage {
+  type: "context.estimates"
+  // Keyed by context item id
+  estimates: Record<string, { tokens: number; chars: number; truncated: boolean; unsaved?: boolean }>
+}
+
+export interface ContextItemUpdateMessage extends BaseMessage {
+  type: "context.itemUpdate"
+  id: string
+  changes: { type?: "code"; lineStart?: number; lineEnd?: number; content?: string }
+}
+
+export interface ContextPinnedMessage extends BaseMessage {
+  type: "context.pinned"
+  // Pinned items of the active session
+  items: unknown[]
+}
+
+export interface ContextApplySetMessage extends BaseMessage {
+  type: "context.applySet"
+  name: string
+  items: unknown[]
+}
+
+export interface MentionResultsMessage extends BaseMessage {
+  type: "mention.results"
+  // Echoes the request so stale answers can be dropped
+  requestId: number
+  results: Array<{
+    type: "file" | "folder" | "code"
+    path: string
+    name: string
+    detail?: string
+    lineStart?: number
+    lineEnd?: number
+  }>
+}
+
+export interface UISettingsMessage extends BaseMessage {
+  type: "ui.settings"
+  reasoningDisplay: "collapsed" | "expanded" | "hidden"
+}
+
+export interface SessionUsageMessage extends BaseMessage {
+  type: "session.usage"
+  sessionId: string
+  usage: MessageUsage
+  // Configured session budget in USD, 0 when disabled
+  budget: number
+}
+
+export interface ChatBlockedMessage extends BaseMessage {
+  type: "chat.blocked"
+  reason: string
+}
+
+export interface ChatAbortedMessage extends BaseMessage {
+  type: "chat.aborted"
+  sessionId: string | null
+}
+
+export interface ChatIdleMessage extends BaseMessage {
+  type: "chat.idle"
+  sessionId: string | null
 }
 
 export interface ErrorMessage extends BaseMessage {
@@ -73,6 +247,27 @@ export type UnifiedMessage =
   | ChatReceiveMessage
   | ChatStreamingMessage
   | DiffShowMessage
+  | SessionStateMessage
+  | ChatHistoryMessage
+  | ChatMessageUpdate
+  | PermissionRequestMessage
+  | PermissionResolvedMessage
+  | SessionActivityMessage
+  | ConnectionStreamMessage
+  | ModelStateMessage
+  | AgentStateMessage
+  | SessionUsageMessage
+  | UISettingsMessage
+  | ChatErrorMessage
+  | ContextFolderSummaryMessage
+  | ContextEstimatesMessage
+  | ContextItemUpdateMessage
+  | ContextPinnedMessage
+  | ContextApplySetMessage
+  | MentionResultsMessage
+  | ChatBlockedMessage
+  | ChatAbortedMessage
+  | ChatIdleMessage
   | ErrorMessage
 
 /**
@@ -0,0 +1,31 @@
+import { AgentInfo } from "../backend/OpenCodeClient"
+
+/**
+ * Helpers for the agent selector (GET /agent)
+ */
+
+/**
+ * Agents the user can pick (primary ones); subagents are only invoked by other agents
+ */
+export function selectableAgents(agents: AgentInfo[]): AgentInfo[] {
+  return agents.filter((a) => a.mode !== "subagent")
+}
+
+/**
+ * The stored agent choice, if the backend still has it
+ * @param agents Known agents; undefined while they have not been loaded
+ */
+export function resolveAgent(stored: string | undefined, agents?: AgentInfo[]): string | undefined {
+  return stored && (!agents || agents.some((a) => a.name === stored)) ? stored : undefined
+}
+
+/**
+ * The agent after `current` in the list, wrapping around; the first one when nothing is selected
+ */
+export function nextAgent(agents: AgentInfo[], current: string | undefined): AgentInfo | undefined {
+  if (agents.length === 0) {
+    return undefined
+  }
+  const index = agents.findIndex((a) => a.name === current)
+  return agents[(index + 1) % agents.length]
+}
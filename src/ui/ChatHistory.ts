@@ -0,0 +1,213 @@
+import { fileURLToPath } from "url"
+import { MessagePart, SessionMessage } from "../backend/OpenCodeClient"
+import { MessageUsage, messageUsage } from "./Usage"
+
+/**
+ * Maps a backend session transcript to the message shape rendered by chat-view
+ * Context blocks inlined by WebviewController.handleChatSend are turned back into context chips
+ */
+
+export interface HistoryContextItem {
+  id: string
+  type: "file" | "folder" | "code"
+  path: string
+  name: string
+  lineStart?: number
+  lineEnd?: number
+}
+
+export type ToolStatus = "pending" | "running" | "completed" | "error"
+
+export interface HistoryToolPart {
+  id: string
+  type: "tool"
+  tool: string
+  state: {
+    status: ToolStatus
+    title?: string
+    input?: Record<string, unknown>
+    output?: string
+    error?: string
+    time?: { start?: number; end?: number }
+  }
+}
+
+export interface HistoryTextPart {
+  id: string
+  type: "text"
+  text: string
+}
+
+export interface HistoryReasoningPart {
+  id: string
+  type: "reasoning"
+  text: string
+  time?: { start?: number; end?: number }
+  /** Loaded from a saved transcript: finished even when the backend never recorded an end time */
+  restored: true
+}
+
+export type HistoryPart = HistoryTextPart | HistoryToolPart | HistoryReasoningPart
+
+export interface HistoryMessage {
+  id: string
+  role: "user" | "assistant"
+  text: string
+  timestamp: number
+  context: HistoryContextItem[]
+  usage?: MessageUsage
+  /** Ordered parts for assistant messages that used tools or reasoned, rendered like live ones */
+  parts?: HistoryPart[]
+}
+
+// Matches "[Context: <path>]", "[Context: <path> (unsaved)]", "[Context: <path> (summary)]", "[Context: <path> - File not accessible]",
+// "[Context: Folder <path>]" and "[Context: Folder <path> - Folder not accessible]"
+const CONTEXT_HEADER = /^\s*\[Context: (Folder )?(.+?)(?: - (?:File|Folder) not accessible| \((?:unsaved|summary)\))?\]/
+const LINE_RANGE = /^(.*):(\d+)(?:-(\d+))?$/
+const TOOL_STATUSES: ToolStatus[] = ["pending", "running", "completed", "error"]
+
+export function toHistoryMessages(entries: SessionMessage[]): HistoryMessage[] {
+  const result: HistoryMessage[] = []
+
+  for (const entry of entries) {
+    const { info, parts } = entry
+    if (!info || (info.role !== "user" && info.role !== "assistant")) {
+      continue
+    }
+
+    const textParts: string[] = []
+    const context: HistoryContextItem[] = []
+    const rendered: HistoryPart[] = []
+    let hasParts = false
+
+    for (const part of parts || []) {
+      if (part.type === "text" && typeof part.text === "string" && !part.synthetic) {
+        const item = info.role === "user" ? parseContextText(part) : null
+        if (item) {
+          context.push(item)
+        } else {
+          textParts.push(part.text)
+          rendered.push({ id: part.id, type: "text", text: part.text })
+        }
+      } else if (part.type === "tool" && info.role === "assistant") {
+        rendered.push(toToolCard(part))
+        hasParts = true
+      } else if (part.type === "reasoning" && info.role === "assistant" && typeof part.text === "string" && part.text) {
+        rendered.push({ id: part.id, type: "reasoning", text: part.text, time: part.time, restored: true })
+        hasParts = true
+      } else if (part.type === "file" && info.role === "user") {
+        const item = parseFilePart(part)
+        if (item) {
+          context.push(item)
+        }
+      }
+    }
+
+    const text = textParts.join("").trim()
+    if (!text && context.length === 0 && !hasParts) {
+      continue
+    }
+
+    result.push({
+      id: info.id,
+      role: info.role,
+      text,
+      timestamp: info.time?.created ?? 0,
+      context,
+      usage: messageUsage(info),
+      parts: hasParts ? rendered : undefined,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Tool part of a saved transcript as the tool-call card expects it
+ * Unknown or missing states show as pending; output and error are kept only for the status they belong to
+ */
+export function toToolCard(part: MessagePart): HistoryToolPart {
+  const state = part.state && typeof part.state === "object" ? part.state : {}
+  const status: ToolStatus = TOOL_STATUSES.includes(state.status) ? state.status : "pending"
+  return {
+    id: part.id,
+    type: "tool",
+    tool: typeof part.tool === "string" ? part.tool : "tool",
+    state: {
+      status,
+      title: state.title,
+      input: state.input && typeof state.input === "object" ? state.input : undefined,
+      output: status === "completed" ? state.output : undefined,
+      error: status === "error" ? state.error : undefined,
+      time: state.time,
+    },
+  }
+}
+
+function parseContextText(part: MessagePart): HistoryContextItem | null {
+  const match = CONTEXT_HEADER.exec(part.text || "")
+  if (!match) {
+    return null
+  }
+  const isFolder = !!match[1]
+  return buildContextItem(part.id, match[2].trim(), isFolder)
+}
+
+function parseFilePart(part: MessagePart): HistoryContextItem | null {
+  const url = parseFileUrl(part.url)
+  const filePath: string | undefined = part.source?.path || url?.filePath || part.filename
+  if (!filePath) {
+    return null
+  }
+
+  const item = buildContextItem(part.id, filePath, part.mime === "application/x-directory")
+  // Line ranges travel in the URL as ?start=&end= (see ContextParts.toFilePart)
+  const params = url?.params ?? new URLSearchParams()
+  const start = parseInt(params.get("start") ?? "", 10)
+  if (item.type !== "folder" && !isNaN(start)) {
+    const end = parseInt(params.get("end") ?? "", 10)
+    item.lineStart = start
+    item.lineEnd = isNaN(end) ? start : end
+  }
+  return item
+}
+
+/**
+ * Path (decoded, with the platform's separators and drive letter) and query of a file:// URL
+ */
+function parseFileUrl(raw: unknown): { filePath: string; params: URLSearchParams } | undefined {
+  if (typeof raw !== "string" || !raw.startsWith("file://")) {
+    return undefined
+  }
+  try {
+    const url = new URL(raw)
+    const params = new URLSearchParams(url.search)
+    url.search = ""
+    return { filePath: fileURLToPath(url), params }
+  } catch {
+    return undefined
+  }
+}
+
+function buildContextItem(id: string, rawPath: string, isFolder: boolean): HistoryContextItem {
+  let filePath = rawPath
+  let lineStart: number | undefined
+  let lineEnd: number | undefined
+
+  const range = LINE_RANGE.exec(rawPath)
+  if (range && !isFolder) {
+    filePath = range[1]
+    lineStart = parseInt(range[2], 10)
+    lineEnd = range[3] ? parseInt(range[3], 10) : undefined
+  }
+
+  const name = filePath.split(/[\/\\]/).filter(Boolean).pop() || filePath
+  return {
+    id: `${filePath}-${id}`,
+    type: isFolder ? "folder" : "file",
+    path: filePath,
+    name,
+    lineStart,
+    lineEnd,
+  }
+}
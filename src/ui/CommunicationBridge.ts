@@ -1,8 +1,15 @@
 import * as vscode from "vscode"
 import * as path from "path"
+import * as fs from "fs"
 import { errorHandler } from "../utils/ErrorHandler"
 import { PluginCommunicator, UnifiedMessage } from "../types/UnifiedMessage"
 import { logger } from "../globals"
+import { applyHunks, diffLines, toHunks } from "./LineDiff"
+import { proposedChanges } from "./ProposedChanges"
+import { FileBlock, FileChange, parseFileBlocks, toFileChanges } from "./FileChanges"
+import { readCurrentText, workspaceApply } from "./WorkspaceApply"
+import { contentHash, contextSnapshots } from "./ContextSnapshots"
+import { MergeResult, mergeThreeWay } from "./ThreeWayMerge"
 import type { bridgeServer as BridgeServerType } from "./IdeBridgeServer"
 
 /**
@@ -191,6 +198,163 @@ export class CommunicationBridge implements PluginCommunicator {
     })
   }
 
+  /**
+   * Replace a file's contents with proposed code, asking first; a file that does not exist yet is created
+   * Goes through a WorkspaceEdit, so it is undoable in the editor and keeps the buffer's unsaved edits in its history
+   * If the file was edited after it was sent as context, the proposal is merged into those edits (three-way)
+   * @param confirm Ask before writing a clean file (callers that already asked pass false)
+   * @param options.basedOn Time of the answer, to find the file contents it was based on; omitted when `code` is already merged
+   * @param options.fromBuffer `code` was built from the current buffer (accepted hunks), so its unsaved edits are already in it
+   * @returns true when the code was applied
+   */
+  async applyCode(
+    filePath: string | undefined,
+    fileName: string,
+    code: string,
+    confirm = true,
+    options: { basedOn?: number; fromBuffer?: boolean } = {},
+  ): Promise<boolean> {
+    const { basedOn, fromBuffer = false } = options
+    if (!filePath) {
+      vscode.window.showErrorMessage("No file path available. Cannot apply changes.")
+      return false
+    }
+
+    try {
+      const fileUri = vscode.Uri.file(filePath)
+      // undefined: neither an editor nor the disk has the file, so the proposal creates it
+      const current = await readCurrentText(fileUri)
+      const change: FileChange = { filePath, action: current === undefined ? "create" : "modify", content: code }
+      const merge = basedOn !== undefined && current !== undefined ? this.mergeWithEdits(filePath, current, code, basedOn) : undefined
+      if (merge && merge.conflicts > 0) {
+        return this.openWithConflicts(filePath, fileName, merge)
+      }
+      if (merge) {
+        logger.appendLine(`[CommunicationBridge] Merged proposal with edits made after the request: ${filePath}`)
+        change.content = merge.text
+      }
+
+      // Unsaved edits would be lost (or conflict on save) if the file were rewritten under them; a merge keeps them
+      const openDocument = vscode.workspace.textDocuments.find(
+        (d) => d.uri.scheme === "file" && path.normalize(d.uri.fsPath) === path.normalize(fileUri.fsPath),
+      )
+      if (openDocument?.isDirty && !merge && !fromBuffer) {
+        const choice = await vscode.window.showWarningMessage(
+          `${fileName} has unsaved changes that the proposed code may not include.`,
+          { modal: true, detail: "Applying replaces the editor contents; you can undo it in the editor." },
+          "Apply Anyway",
+        )
+        if (choice !== "Apply Anyway") {
+          return false
+        }
+        if (!(await workspaceApply.apply([change], fileName))) {
+          return false
+        }
+        logger.appendLine(`[CommunicationBridge] Applied to unsaved buffer: ${filePath}`)
+        vscode.window.showInformationMessage(`Changes applied to ${fileName} (not saved yet)`)
+        return true
+      }
+
+      // Show confirmation dialog
+      if (confirm) {
+        const question = change.action === "create" ? `Create ${fileName}?` : `Apply changes to ${fileName}?`
+        const selected = await vscode.window.showInformationMessage(question, "Apply", "Cancel")
+        if (selected !== "Apply") {
+          return false
+        }
+      }
+
+      if (!(await workspaceApply.apply([change], fileName))) {
+        return false
+      }
+      logger.appendLine(`[CommunicationBridge] File ${change.action === "create" ? "created" : "written"} successfully: ${filePath}`)
+      if (change.action === "create") {
+        vscode.window.showInformationMessage(`Created ${fileName}`)
+      } else {
+        vscode.window.showInformationMessage(merge ? `Changes merged into ${fileName} alongside your edits` : `Changes applied to ${fileName}`)
+      }
+      return true
+    } catch (err) {
+      logger.appendLine(`[CommunicationBridge] Error applying diff: ${err}`)
+      vscode.window.showErrorMessage(`Error applying changes: ${err}`)
+      return false
+    }
+  }
+
+  /**
+   * Three-way merge of a proposal with the file's current text, when the file changed since it was sent as context
+   * @returns undefined when there is no recorded base or the file is unchanged
+   */
+  private mergeWithEdits(filePath: string, current: string, proposed: string, basedOn?: number): MergeResult | undefined {
+    const base = contextSnapshots.baseFor(filePath, basedOn)
+    if (!base || contentHash(current) === base.hash) {
+      return undefined
+    }
+    return mergeThreeWay(base.content, current, proposed)
+  }
+
+  /**
+   * Put a conflicting merge into the editor (unsaved) so the conflict markers can be resolved there
+   */
+  private async openWithConflicts(filePath: string, fileName: string, merge: MergeResult): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+      `${fileName} changed after it was sent to OpenCode and ${merge.conflicts} change(s) conflict with the proposal.`,
+      {
+        modal: true,
+        detail: "The file opens with conflict markers (Accept Current / Incoming in the editor). Nothing is saved until you resolve them.",
+      },
+      "Open with Conflict Markers",
+    )
+    if (choice !== "Open with Conflict Markers") {
+      return false
+    }
+    if (!(await workspaceApply.apply([{ filePath, action: "modify", content: merge.text }], `${fileName} (conflicts)`, { save: false }))) {
+      return false
+    }
+    await vscode.window.showTextDocument(vscode.Uri.file(filePath), { preview: false })
+    logger.appendLine(`[CommunicationBridge] Opened ${filePath} with ${merge.conflicts} conflict(s)`)
+    return true
+  }
+
+  /**
+   * Apply the files named in an answer (modify, create, delete) as one WorkspaceEdit, after the user confirms the list
+   * Paths resolve against the first workspace folder; a batch reaching outside it is refused as a whole
+   */
+  private async applyFileBlocks(blocks: FileBlock[]): Promise<void> {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    if (!root) {
+      vscode.window.showErrorMessage("Open a workspace folder to apply changes to several files.")
+      return
+    }
+    const { changes, outside } = toFileChanges(blocks, root, (filePath) => fs.existsSync(filePath))
+    if (outside.length > 0) {
+      logger.appendLine(`[CommunicationBridge] Refused file changes outside ${root}: ${outside.join(", ")}`)
+      vscode.window.showErrorMessage(`The answer changes files outside the workspace folder (${outside.join(", ")}). Nothing was applied.`)
+      return
+    }
+
+    // Preview only: nothing is written until the list of changes is confirmed
+    const verbs = { modify: "Modify", create: "Create", delete: "Delete" }
+    const choice = await vscode.window.showInformationMessage(
+      `Apply changes to ${changes.length} files?`,
+      { modal: true, detail: changes.map((c) => `${verbs[c.action]} ${path.relative(root, c.filePath)}`).join("\n") },
+      "Apply",
+    )
+    if (choice !== "Apply") {
+      return
+    }
+
+    const label = `OpenCode: ${changes.length} files`
+    try {
+      if (await workspaceApply.apply(changes, label)) {
+        vscode.window.showInformationMessage(`Applied changes to ${changes.length} files`)
+      }
+    } catch (err) {
+      logger.appendLine(`[CommunicationBridge] Error applying file changes: ${err}`)
+      vscode.window.showErrorMessage(`Error applying changes: ${err}`)
+    }
+  }
+
   /**
    * Send directory path to the web UI for pasting
    * Mirrors PathInserter.kt pastePath functionality
@@ -468,6 +632,20 @@ export class CommunicationBridge implements PluginCommunicator {
   private onUILoadedCallback?: (success: boolean, error?: string) => Promise<void>
   private onReadUris?: (uris: string[]) => Promise<void>
   private onChatSendCallback?: (text: string, context?: any[], options?: any) => Promise<void>
+  private onUIReadyCallback?: () => Promise<void>
+  private onChatAbortCallback?: () => Promise<void>
+  private onChatRetryCallback?: () => Promise<void>
+  private onDescribeFolderCallback?: (id: string, path: string) => Promise<void>
+  private onContextEstimateCallback?: (items: any[], options?: any) => Promise<void>
+  private onContextReduceCallback?: (item: any, action: string) => Promise<void>
+  private onContextPinCallback?: (items: any[]) => Promise<void>
+  private onContextSetsCallback?: (items: any[]) => Promise<void>
+  private onMentionSearchCallback?: (query: string, kind: string, requestId: number) => Promise<void>
+  private onMentionResolveCallback?: (item: any) => Promise<void>
+  private onSessionActionCallback?: (action: string, sessionId?: string) => Promise<void>
+  private onAgentSelectCallback?: (agent?: string) => Promise<void>
+  private onModelActionCallback?: (action: string, model?: any) => Promise<void>
+  private onPermissionResponseCallback?: (permissionId: string, response: string) => Promise<void>
 
   /**
    * Set callback for UI loaded events
@@ -490,6 +668,104 @@ export class CommunicationBridge implements PluginCommunicator {
     this.onChatSendCallback = callback
   }
 
+  /**
+   * Set callback for Chat abort (Stop button) requests
+   */
+  setChatAbortCallback(callback: () => Promise<void>): void {
+    this.onChatAbortCallback = callback
+  }
+
+  /**
+   * Set callback for Retry on a failed run
+   */
+  setChatRetryCallback(callback: () => Promise<void>): void {
+    this.onChatRetryCallback = callback
+  }
+
+  /**
+   * Set callback for folder chips asking what the folder context will include
+   */
+  setDescribeFolderCallback(callback: (id: string, path: string) => Promise<void>): void {
+    this.onDescribeFolderCallback = callback
+  }
+
+  /**
+   * Set callback for token estimates of the context items
+   */
+  setContextEstimateCallback(callback: (items: any[], options?: any) => Promise<void>): void {
+    this.onContextEstimateCallback = callback
+  }
+
+  /**
+   * Set callback for reducing a context item (trim to a range, summarize)
+   */
+  setContextReduceCallback(callback: (item: any, action: string) => Promise<void>): void {
+    this.onContextReduceCallback = callback
+  }
+
+  /**
+   * Set callback for changes to the pinned context items
+   */
+  setContextPinCallback(callback: (items: any[]) => Promise<void>): void {
+    this.onContextPinCallback = callback
+  }
+
+  /**
+   * Set callback for the context sets menu (save the pinned items, load or delete a set)
+   */
+  setContextSetsCallback(callback: (items: any[]) => Promise<void>): void {
+    this.onContextSetsCallback = callback
+  }
+
+  /**
+   * Set callback for @-mention searches typed in the chat input
+   */
+  setMentionSearchCallback(callback: (query: string, kind: string, requestId: number) => Promise<void>): void {
+    this.onMentionSearchCallback = callback
+  }
+
+  /**
+   * Set callback for resolving a mentioned symbol to its full line range
+   */
+  setMentionResolveCallback(callback: (item: any) => Promise<void>): void {
+    this.onMentionResolveCallback = callback
+  }
+
+  /**
+   * Set callback for the webview "ui.ready" handshake
+   */
+  setUIReadyCallback(callback: () => Promise<void>): void {
+    this.onUIReadyCallback = callback
+  }
+
+  /**
+   * Set callback for session picker actions (list, switch, create, rename, delete)
+   */
+  setSessionActionCallback(callback: (action: string, sessionId?: string) => Promise<void>): void {
+    this.onSessionActionCallback = callback
+  }
+
+  /**
+   * Set callback for agent selector changes
+   */
+  setAgentSelectCallback(callback: (agent?: string) => Promise<void>): void {
+    this.onAgentSelectCallback = callback
+  }
+
+  /**
+   * Set callback for model selector actions (select, toggleFavourite)
+   */
+  setModelActionCallback(callback: (action: string, model?: any) => Promise<void>): void {
+    this.onModelActionCallback = callback
+  }
+
+  /**
+   * Set callback for answers to backend permission requests (once, always, reject)
+   */
+  setPermissionResponseCallback(callback: (permissionId: string, response: string) => Promise<void>): void {
+    this.onPermissionResponseCallback = callback
+  }
+
   /**
    * Set up message handlers for webview communication
    * Consolidated handler for all webview message types
@@ -541,6 +817,46 @@ export class CommunicationBridge implements PluginCommunicator {
               }
               break
 
+            case "ui.ready":
+              logger.appendLine("[CommunicationBridge] Webview ready")
+              if (this.onUIReadyCallback) {
+                await this.onUIReadyCallback()
+              }
+              break
+
+            case "session.list":
+            case "session.switch":
+            case "session.create":
+            case "session.rename":
+            case "session.delete":
+              logger.appendLine(`[CommunicationBridge] Session action: ${message.type} ${message.sessionId ?? ""}`)
+              if (this.onSessionActionCallback) {
+                await this.onSessionActionCallback(message.type.slice("session.".length), message.sessionId)
+              }
+              break
+
+            case "agent.select":
+              logger.appendLine(`[CommunicationBridge] Agent selected: ${message.agent ?? "default"}`)
+              if (this.onAgentSelectCallback) {
+                await this.onAgentSelectCallback(message.agent)
+              }
+              break
+
+            case "model.select":
+            case "model.toggleFavourite":
+              logger.appendLine(`[CommunicationBridge] Model action: ${message.type}`)
+              if (this.onModelActionCallback) {
+                await this.onModelActionCallback(message.type.slice("model.".length), message.model)
+              }
+              break
+
+            case "permission.respond":
+              logger.appendLine(`[CommunicationBridge] Permission response: ${message.permissionId} -> ${message.response}`)
+              if (this.onPermissionResponseCallback) {
+                await this.onPermissionResponseCallback(message.permissionId, message.response)
+              }
+              break
+
             case "error":
               logger.appendLine(`Webview error: ${message.error}`)
               if (message.filename) {
@@ -572,6 +888,62 @@ export class CommunicationBridge implements PluginCommunicator {
               }
               break
 
+            case "chat.abort":
+              logger.appendLine("[CommunicationBridge] Chat abort request")
+              if (this.onChatAbortCallback) {
+                await this.onChatAbortCallback()
+              }
+              break
+
+            case "chat.retry":
+              logger.appendLine("[CommunicationBridge] Chat retry request")
+              if (this.onChatRetryCallback) {
+                await this.onChatRetryCallback()
+              }
+              break
+
+            case "context.describeFolder":
+              if (this.onDescribeFolderCallback && message.id && message.path) {
+                await this.onDescribeFolderCallback(message.id, message.path)
+              }
+              break
+
+            case "context.estimate":
+              if (this.onContextEstimateCallback) {
+                await this.onContextEstimateCallback(message.items || [], message.options)
+              }
+              break
+
+            case "context.reduce":
+              if (this.onContextReduceCallback && message.item && message.action) {
+                await this.onContextReduceCallback(message.item, message.action)
+              }
+              break
+
+            case "context.pin":
+              if (this.onContextPinCallback) {
+                await this.onContextPinCallback(message.items || [])
+              }
+              break
+
+            case "context.sets":
+              if (this.onContextSetsCallback) {
+                await this.onContextSetsCallback(message.items || [])
+              }
+              break
+
+            case "mention.search":
+              if (this.onMentionSearchCallback) {
+                await this.onMentionSearchCallback(message.query || "", message.kind || "file", message.requestId ?? 0)
+              }
+              break
+
+            case "mention.resolveSymbol":
+              if (this.onMentionResolveCallback && message.item) {
+                await this.onMentionResolveCallback(message.item)
+              }
+              break
+
             case "context.requestFile":
               try {
                 // Open file picker dialog
@@ -667,54 +1039,71 @@ export class CommunicationBridge implements PluginCommunicator {
               }
               break
 
-            case "diff.show":
-              logger.appendLine(`[CommunicationBridge] Diff show requested`);
-              // Forward to webview to show diff preview
+            case "diff.show": {
+              logger.appendLine(`[CommunicationBridge] Diff show requested for: ${message.filePath}`);
+              // An answer that rewrites several named files is listed for confirmation, then applied as one batch
+              const fileBlocks = parseFileBlocks(String(message.content || ""));
+              if (fileBlocks.length > 1) {
+                await this.applyFileBlocks(fileBlocks);
+                break;
+              }
+              // Diff the proposed code against the file as it is now, then forward to the webview preview
+              const codeMatch = String(message.content || "").match(/```(?:[\w+-]+)?\n([\s\S]*?)```/);
+              const code = codeMatch ? codeMatch[1] : String(message.content || "");
+              const original = message.filePath ? await readCurrentText(vscode.Uri.file(message.filePath)) : undefined;
+              // Edited since the message was sent: preview the proposal merged into those edits
+              const merge = message.filePath && original !== undefined ? this.mergeWithEdits(message.filePath, original, code, message.messageTime) : undefined;
+              const merged = merge !== undefined && merge.conflicts === 0;
+              const previewCode = merged ? merge.text : code;
               this.sendMessage({
                 type: 'diff.show',
                 content: message.content,
-                messageId: message.messageId
+                messageId: message.messageId,
+                messageTime: message.messageTime,
+                filePath: message.filePath,
+                fileName: message.fileName,
+                code: previewCode,
+                original: original ?? "",
+                newFile: original === undefined,
+                merged,
+                conflicts: merge?.conflicts ?? 0,
+                hunks: toHunks(diffLines(original ?? "", previewCode))
               });
               break
+            }
 
             case "diff.applyCode":
               logger.appendLine(`[CommunicationBridge] Diff apply requested for: ${message.fileName}, path: ${message.filePath}`);
-              
-              if (!message.filePath) {
-                vscode.window.showErrorMessage("No file path available. Cannot apply changes.");
-                break;
-              }
-
-              try {
-                const fileUri = vscode.Uri.file(message.filePath);
-                
-                // Check if file exists
-                const fileExists = await vscode.workspace.fs.stat(fileUri).then(
-                  () => true,
-                  () => false
-                );
-
-                if (!fileExists) {
-                  vscode.window.showErrorMessage(`File not found: ${message.filePath}`);
+              // Only some hunks accepted: merge those into the file as it is now
+              if (Array.isArray(message.hunks) && message.filePath) {
+                const current = await readCurrentText(vscode.Uri.file(message.filePath));
+                let merged: string;
+                try {
+                  merged = applyHunks(current ?? "", message.hunks);
+                } catch (err) {
+                  logger.appendLine(`[CommunicationBridge] Could not merge hunks: ${err}`);
+                  vscode.window.showErrorMessage(`${message.fileName} changed since the preview was opened. Open the preview again to apply selected hunks.`);
                   break;
                 }
+                logger.appendLine(`[CommunicationBridge] Merging ${message.hunks.length} accepted hunk(s) into ${message.filePath}`);
+                await this.applyCode(message.filePath, message.fileName, merged, true, { fromBuffer: true });
+                break;
+              }
+              await this.applyCode(message.filePath, message.fileName, message.code, true, { basedOn: message.messageTime });
+              break
 
-                // Show confirmation dialog
-                const selected = await vscode.window.showInformationMessage(
-                  `Apply changes to ${message.fileName}?`,
-                  "Apply",
-                  "Cancel"
-                );
-
-                if (selected === "Apply") {
-                  await vscode.workspace.fs.writeFile(fileUri, Buffer.from(message.code, "utf-8"));
-                  logger.appendLine(`[CommunicationBridge] File written successfully: ${message.filePath}`);
-                  vscode.window.showInformationMessage(`Changes applied to ${message.fileName}`);
-                }
-              } catch (err) {
-                logger.appendLine(`[CommunicationBridge] Error applying diff: ${err}`);
-                vscode.window.showErrorMessage(`Error applying changes: ${err}`);
+            case "diff.openEditor":
+              if (!message.filePath) {
+                vscode.window.showErrorMessage("No file path available. Cannot open the diff editor.");
+                break;
               }
+              await proposedChanges.open({
+                filePath: message.filePath,
+                fileName: message.fileName || path.basename(message.filePath),
+                code: message.code,
+                // Accepting in the diff editor is the confirmation
+                apply: (code) => this.applyCode(message.filePath, message.fileName || path.basename(message.filePath), code, false, { basedOn: message.messageTime }),
+              });
               break
 
             default:
@@ -0,0 +1,58 @@
+/**
+ * Rough context-window accounting for chat context items
+ * Token counts are estimates (about four characters per token), good enough to warn before a limit
+ */
+
+export const CHARS_PER_TOKEN = 4
+
+export interface ContextEstimate {
+  tokens: number
+  chars: number
+  /** Content is cut to context.maxFileChars when sent */
+  truncated: boolean
+  /** Taken from an editor with unsaved changes */
+  unsaved?: boolean
+}
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN)
+}
+
+/**
+ * Lines lineStart..lineEnd (1-based, inclusive) of a text; a missing end means the single start line
+ */
+export function sliceLines(content: string, lineStart?: number, lineEnd?: number): string {
+  if (lineStart === undefined) {
+    return content
+  }
+  const lines = content.split("\n")
+  const start = Math.max(0, lineStart - 1)
+  const end = lineEnd !== undefined ? Math.min(lines.length, lineEnd) : start + 1
+  return lines.slice(start, end).join("\n")
+}
+
+/**
+ * Cut content to maxChars (0 disables the limit), noting the original length
+ */
+export function truncateContent(content: string, maxChars: number): { text: string; truncated: boolean } {
+  if (maxChars <= 0 || content.length <= maxChars) {
+    return { text: content, truncated: false }
+  }
+  return {
+    text: `${content.substring(0, maxChars)}\n\n[... Content truncated, total length: ${content.length} chars ...]`,
+    truncated: true,
+  }
+}
+
+/**
+ * Parse a "start-end" (or single "line") range typed by the user
+ */
+export function parseLineRange(input: string): { lineStart: number; lineEnd: number } | undefined {
+  const match = /^\s*(\d+)\s*(?:[-:]\s*(\d+))?\s*$/.exec(input)
+  if (!match) {
+    return undefined
+  }
+  const lineStart = Number(match[1])
+  const lineEnd = match[2] !== undefined ? Number(match[2]) : lineStart
+  return lineStart >= 1 && lineEnd >= lineStart ? { lineStart, lineEnd } : undefined
+}
@@ -0,0 +1,74 @@
+import * as path from "path"
+import { pathToFileURL } from "url"
+
+/**
+ * Context items (files, line ranges, folders) as OpenCode file parts
+ * The backend reads the file itself; the range travels in the URL as ?start=&end=
+ * Text the backend cannot read from disk (older backends, unsaved buffers) is inlined instead
+ */
+
+export interface ContextItem {
+  type: "file" | "folder" | "code"
+  path: string
+  name?: string
+  lineStart?: number
+  lineEnd?: number
+  /** Text sent instead of the file (e.g. a summary the user reduced it to) */
+  content?: string
+}
+
+export interface FilePartInput {
+  type: "file"
+  mime: string
+  url: string
+  filename: string
+}
+
+export const DIRECTORY_MIME = "application/x-directory"
+
+const BINARY_MIMES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+}
+
+/**
+ * Mime type the backend uses to decide how to read the file; anything not listed is read as text
+ */
+export function contextMime(filePath: string): string {
+  return BINARY_MIMES[path.extname(filePath).toLowerCase()] ?? "text/plain"
+}
+
+/**
+ * Build the file part for a context item
+ * @param item Context item from the webview
+ * @param resolvedPath Absolute path of the item on disk
+ */
+export function toFilePart(item: ContextItem, resolvedPath: string): FilePartInput {
+  const url = pathToFileURL(resolvedPath)
+  if (item.type !== "folder" && item.lineStart !== undefined) {
+    url.searchParams.set("start", String(item.lineStart))
+    url.searchParams.set("end", String(item.lineEnd ?? item.lineStart))
+  }
+
+  return {
+    type: "file",
+    mime: item.type === "folder" ? DIRECTORY_MIME : contextMime(resolvedPath),
+    url: url.href,
+    filename: item.name || path.basename(resolvedPath),
+  }
+}
+
+/**
+ * A file item inlined as a text block; ChatHistory turns the "[Context: ...]" header back into a chip
+ * @param text Contents of the item (its range only), already cut to size
+ * @param unsaved The text comes from an editor with unsaved changes
+ */
+export function inlineContextText(item: ContextItem, text: string, unsaved = false): string {
+  const range = item.lineStart ? `:${item.lineStart}${item.lineEnd ? `-${item.lineEnd}` : ""}` : ""
+  return `\n\n[Context: ${item.path}${range}${unsaved ? " (unsaved)" : ""}]\n\`\`\`\n${text}\n\`\`\``
+}
@@ -0,0 +1,77 @@
+import * as vscode from "vscode"
+
+/**
+ * Named context sets: pinned context items saved under a name to reuse in other sessions
+ * The items pinned in each session are kept alongside them
+ * Both live in workspaceState, since the paths are relative to the workspace
+ */
+
+export interface ContextSetItem {
+  id: string
+  type: "file" | "folder" | "code"
+  path: string
+  name: string
+  lineStart?: number
+  lineEnd?: number
+  content?: string
+}
+
+export interface ContextSet {
+  name: string
+  items: ContextSetItem[]
+  updated: number
+}
+
+const SETS_KEY = "opencode.context.sets"
+const PINNED_KEY = "opencode.context.pinned"
+
+// Only what identifies the item is kept; estimates and summaries of the moment are not
+function toStored(items: ContextSetItem[]): ContextSetItem[] {
+  return items.map(({ id, type, path, name, lineStart, lineEnd, content }) => ({ id, type, path, name, lineStart, lineEnd, content }))
+}
+
+export class ContextSets {
+  private state: vscode.Memento
+
+  constructor(state: vscode.Memento) {
+    this.state = state
+  }
+
+  list(): ContextSet[] {
+    return this.state.get<ContextSet[]>(SETS_KEY, [])
+  }
+
+  get(name: string): ContextSet | undefined {
+    return this.list().find((s) => s.name === name)
+  }
+
+  /**
+   * Save a set, replacing one with the same name; most recently saved first
+   */
+  async save(name: string, items: ContextSetItem[]): Promise<void> {
+    const sets = [{ name, items: toStored(items), updated: Date.now() }, ...this.list().filter((s) => s.name !== name)]
+    await this.state.update(SETS_KEY, sets)
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.state.update(
+      SETS_KEY,
+      this.list().filter((s) => s.name !== name),
+    )
+  }
+
+  /**
+   * Items pinned in a session
+   */
+  pinned(sessionId: string): ContextSetItem[] {
+    return this.state.get<Record<string, ContextSetItem[]>>(PINNED_KEY, {})[sessionId] ?? []
+  }
+
+  /**
+   * Replace the items pinned in a session; no items drops the session's entry
+   */
+  async savePinned(sessionId: string, items: ContextSetItem[]): Promise<void> {
+    const { [sessionId]: _previous, ...others } = this.state.get<Record<string, ContextSetItem[]>>(PINNED_KEY, {})
+    await this.state.update(PINNED_KEY, items.length > 0 ? { ...others, [sessionId]: toStored(items) } : others)
+  }
+}
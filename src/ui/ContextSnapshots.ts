@@ -0,0 +1,56 @@
+import * as crypto from "crypto"
+import * as path from "path"
+
+/**
+ * File contents as they were sent to the model, kept so an answer can be merged against the copy it was based on
+ * Snapshots live in memory for the extension's lifetime, a few per file
+ */
+
+export interface ContextSnapshot {
+  /** When the message carrying the file was sent (ms since epoch) */
+  sentAt: number
+  content: string
+  hash: string
+}
+
+const MAX_SNAPSHOTS_PER_FILE = 5
+
+export function contentHash(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex")
+}
+
+export class ContextSnapshots {
+  private snapshots = new Map<string, ContextSnapshot[]>()
+
+  /**
+   * Remember a file's contents as sent with a message
+   */
+  record(filePath: string, content: string, sentAt: number): void {
+    const key = path.normalize(filePath)
+    const list = this.snapshots.get(key) ?? []
+    const hash = contentHash(content)
+    // An unchanged resend is already covered by the earlier snapshot
+    if (list[list.length - 1]?.hash === hash) {
+      return
+    }
+    list.push({ sentAt, content, hash })
+    this.snapshots.set(key, list.slice(-MAX_SNAPSHOTS_PER_FILE))
+  }
+
+  /**
+   * The contents an answer was based on: the latest snapshot sent before it
+   * @param before Time the answer was created; omitted means the latest snapshot
+   */
+  baseFor(filePath: string, before?: number): ContextSnapshot | undefined {
+    const list = this.snapshots.get(path.normalize(filePath)) ?? []
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (before === undefined || list[i].sentAt <= before) {
+        return list[i]
+      }
+    }
+    return undefined
+  }
+}
+
+// Singleton instance
+export const contextSnapshots = new ContextSnapshots()
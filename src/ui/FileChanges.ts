@@ -0,0 +1,88 @@
+import * as path from "path"
+
+/**
+ * File changes proposed in an assistant answer
+ * A fenced block whose info string names a path ("```ts src/a.ts", "```ts:src/a.ts", "```src/a.ts")
+ * proposes that file's full contents; "```delete src/a.ts" proposes deleting it
+ */
+
+export interface FileChange {
+  filePath: string
+  action: "modify" | "create" | "delete"
+  /** Full new contents (modify / create) */
+  content?: string
+}
+
+export interface FileBlock {
+  /** Path as written in the answer */
+  path: string
+  delete: boolean
+  code: string
+}
+
+const FENCE = /^```([^\n`]*)\n([\s\S]*?)^```[ \t]*$/gm
+
+const SEPARATOR = /[/\\]/
+// A file name ending in a real extension ("a.ts", not "1.5")
+const FILE_NAME = /[^./\\]\.[A-Za-z][A-Za-z0-9]*$/
+
+/**
+ * Whether an info-string word (split on spaces, so never containing one) names a file:
+ * it has a separator, or is a file name with an extension
+ * The first word is usually the language ("node.js", "vue.config"), so it counts only with a separator
+ */
+function looksLikePath(word: string, first: boolean): boolean {
+  return SEPARATOR.test(word) || (!first && FILE_NAME.test(word))
+}
+
+/**
+ * Whether a path lies inside a folder (the folder itself does not count)
+ */
+export function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath)
+  return relative !== "" && !path.isAbsolute(relative) && relative.split(/[/\\]/)[0] !== ".."
+}
+
+/**
+ * Fenced blocks that name the file they belong to, in order; a path named twice keeps its last block
+ */
+export function parseFileBlocks(markdown: string): FileBlock[] {
+  const blocks = new Map<string, FileBlock>()
+  for (const match of markdown.matchAll(FENCE)) {
+    const words = match[1].trim().split(/[\s:]+/).filter(Boolean)
+    const isDelete = words[0] === "delete"
+    const candidate = isDelete ? words.slice(1).find((word) => looksLikePath(word, false)) : words.find((word, i) => looksLikePath(word, i === 0))
+    if (!candidate) {
+      continue
+    }
+    blocks.delete(candidate)
+    blocks.set(candidate, { path: candidate, delete: isDelete, code: isDelete ? "" : match[2] })
+  }
+  return [...blocks.values()]
+}
+
+/**
+ * Turn parsed blocks into changes against a workspace
+ * @param root Workspace folder: relative paths are resolved from it and every change must stay inside it
+ * @param exists Whether a file is already there (decides modify vs create)
+ * @returns The changes, and the paths (as written) that resolve outside the root and were left out
+ */
+export function toFileChanges(
+  blocks: FileBlock[],
+  root: string,
+  exists: (filePath: string) => boolean,
+): { changes: FileChange[]; outside: string[] } {
+  const changes: FileChange[] = []
+  const outside: string[] = []
+  for (const block of blocks) {
+    const filePath = path.resolve(root, block.path)
+    if (!isInside(root, filePath)) {
+      outside.push(block.path)
+    } else if (block.delete) {
+      changes.push({ filePath, action: "delete" })
+    } else {
+      changes.push({ filePath, action: exists(filePath) ? "modify" : "create", content: block.code })
+    }
+  }
+  return { changes, outside }
+}
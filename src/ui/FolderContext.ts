@@ -0,0 +1,256 @@
+import * as fs from "fs"
+import * as path from "path"
+
+/**
+ * Folder context: a directory tree (and optionally small file contents) for a folder attached to the chat
+ * Honours .gitignore files and exclude globs (files.exclude, opencode.context.exclude)
+ */
+
+export interface FolderContextOptions {
+  /** Root the exclude globs and ancestor .gitignore files are resolved from (usually the workspace folder) */
+  workspaceRoot?: string
+  /** Globs relative to workspaceRoot */
+  exclude: string[]
+  maxDepth: number
+  maxEntries: number
+  includeContents: boolean
+  /** Files larger than this are listed but not inlined */
+  smallFileChars: number
+  /** Total characters of file contents across the folder */
+  contentBudget: number
+}
+
+export interface FolderSummary {
+  entries: number
+  /** Paths (relative to the folder) whose contents were included */
+  files: string[]
+  /** The entry cap or depth limit left part of the folder out */
+  truncated: boolean
+}
+
+export interface FolderContext {
+  tree: string
+  contents: Array<{ path: string; content: string }>
+  summary: FolderSummary
+}
+
+interface IgnoreRule {
+  base: string
+  regex: RegExp
+  negate: boolean
+  dirOnly: boolean
+  anchored: boolean
+}
+
+/**
+ * Convert a glob (*, **, ?, {a,b}) to a regular expression over "/"-separated paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = ""
+  let inBraces = false
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        i++
+        // "**/" matches zero or more directories, any other "**" everything below
+        if (glob[i + 1] === "/") {
+          i++
+          re += "(?:.*/)?"
+        } else {
+          re += ".*"
+        }
+      } else {
+        re += "[^/]*"
+      }
+    } else if (c === "?") {
+      re += "[^/]"
+    } else if (c === "{") {
+      inBraces = true
+      re += "(?:"
+    } else if (c === "}" && inBraces) {
+      inBraces = false
+      re += ")"
+    } else if (c === "," && inBraces) {
+      re += "|"
+    } else {
+      re += c.replace(/[.+^$()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+/**
+ * .gitignore rules collected while walking, plus plain exclude globs
+ * Paths are relative to the workspace root and use "/"
+ */
+export class IgnoreRules {
+  private rules: IgnoreRule[] = []
+  private excludes: RegExp[]
+
+  constructor(exclude: string[] = []) {
+    this.excludes = exclude.map((glob) => globToRegExp(glob.replace(/^\.?\//, "").replace(/\/+$/, "")))
+  }
+
+  /**
+   * Add the lines of a .gitignore found in `base` (relative to the root, "" for the root itself)
+   */
+  addGitignore(base: string, text: string): void {
+    for (const raw of text.split(/\r?\n/)) {
+      let line = raw.trim()
+      if (!line || line.startsWith("#")) {
+        continue
+      }
+      const negate = line.startsWith("!")
+      if (negate) {
+        line = line.slice(1)
+      }
+      const dirOnly = line.endsWith("/")
+      line = line.replace(/\/+$/, "")
+      // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+      const anchored = line.includes("/")
+      line = line.replace(/^\//, "")
+      if (!line) {
+        continue
+      }
+      this.rules.push({ base, regex: globToRegExp(line), negate, dirOnly, anchored })
+    }
+  }
+
+  ignores(relPath: string, isDir: boolean): boolean {
+    if (this.excludes.some((re) => re.test(relPath))) {
+      return true
+    }
+
+    let ignored = false
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDir) {
+        continue
+      }
+      if (rule.base && !relPath.startsWith(`${rule.base}/`)) {
+        continue
+      }
+      const sub = rule.base ? relPath.slice(rule.base.length + 1) : relPath
+      const target = rule.anchored ? sub : sub.slice(sub.lastIndexOf("/") + 1)
+      if (rule.regex.test(target)) {
+        // Later rules win, so a negation can bring a path back
+        ignored = !rule.negate
+      }
+    }
+    return ignored
+  }
+}
+
+async function readGitignore(dir: string): Promise<string | undefined> {
+  try {
+    return await fs.promises.readFile(path.join(dir, ".gitignore"), "utf-8")
+  } catch {
+    return undefined
+  }
+}
+
+const toPosix = (p: string) => p.split(path.sep).join("/")
+
+/**
+ * Walk a folder and build its tree listing and, if enabled, the contents of its small text files
+ * @param folder Absolute path of the folder
+ */
+export async function buildFolderContext(folder: string, options: FolderContextOptions): Promise<FolderContext> {
+  const root = options.workspaceRoot && !path.relative(options.workspaceRoot, folder).startsWith("..") ? options.workspaceRoot : folder
+  const rules = new IgnoreRules(options.exclude)
+
+  // .gitignore files between the workspace root and the folder apply too
+  const ancestors = toPosix(path.relative(root, folder)).split("/").filter(Boolean)
+  for (let i = 0; i < ancestors.length; i++) {
+    const base = ancestors.slice(0, i).join("/")
+    const text = await readGitignore(path.join(root, base))
+    if (text) {
+      rules.addGitignore(base, text)
+    }
+  }
+
+  const lines: string[] = []
+  const candidates: Array<{ abs: string; rel: string; size: number }> = []
+  const summary: FolderSummary = { entries: 0, files: [], truncated: false }
+
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    const base = toPosix(path.relative(root, dir))
+    const gitignore = await readGitignore(dir)
+    if (gitignore) {
+      rules.addGitignore(base, gitignore)
+    }
+
+    let dirents: fs.Dirent[]
+    try {
+      dirents = await fs.promises.readdir(dir, { withFileTypes: true })
+    } catch {
+      return
+    }
+    // Directories first, then files, each alphabetically
+    dirents.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+
+    for (const dirent of dirents) {
+      const isDir = dirent.isDirectory()
+      const rel = base ? `${base}/${dirent.name}` : dirent.name
+      if (dirent.name === ".git" || rules.ignores(rel, isDir)) {
+        continue
+      }
+      if (summary.entries >= options.maxEntries) {
+        summary.truncated = true
+        return
+      }
+
+      summary.entries++
+      const indent = "  ".repeat(depth)
+      const abs = path.join(dir, dirent.name)
+      if (isDir) {
+        if (depth + 1 >= options.maxDepth) {
+          lines.push(`${indent}${dirent.name}/ …`)
+          summary.truncated = true
+        } else {
+          lines.push(`${indent}${dirent.name}/`)
+          await walk(abs, depth + 1)
+        }
+      } else if (dirent.isFile()) {
+        lines.push(`${indent}${dirent.name}`)
+        if (options.includeContents) {
+          const size = (await fs.promises.stat(abs)).size
+          candidates.push({ abs, rel: toPosix(path.relative(folder, abs)), size })
+        }
+      }
+    }
+  }
+
+  await walk(folder, 0)
+
+  const contents: FolderContext["contents"] = []
+  let budget = options.contentBudget
+  for (const file of candidates) {
+    if (file.size > options.smallFileChars || file.size > budget) {
+      continue
+    }
+    const content = await fs.promises.readFile(file.abs, "utf-8")
+    // Skip binaries
+    if (content.includes("\u0000")) {
+      continue
+    }
+    contents.push({ path: file.rel, content })
+    summary.files.push(file.rel)
+    budget -= content.length
+  }
+
+  return { tree: lines.join("\n"), contents, summary }
+}
+
+/**
+ * Render a folder context as the text the model receives
+ * @param label Folder path as shown to the user
+ */
+export function formatFolderContext(label: string, context: FolderContext): string {
+  const { summary } = context
+  let text = `\n\n[Context: Folder ${label}] (${summary.entries} entries${summary.truncated ? ", truncated" : ""})\n\`\`\`\n${context.tree}\n\`\`\``
+  for (const file of context.contents) {
+    text += `\n\n[Context: ${label.replace(/[\\/]+$/, "")}/${file.path}]\n\`\`\`\n${file.content}\n\`\`\``
+  }
+  return text
+}
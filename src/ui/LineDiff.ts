@@ -0,0 +1,212 @@
+/**
+ * Line diff between a file and a proposed version of it (Myers' O(ND) algorithm)
+ * Produces the edit script and unified-style hunks with old and new line numbers
+ */
+
+export interface DiffLine {
+  type: "unchanged" | "added" | "removed"
+  content: string
+  /** 1-based line in the old text (unchanged and removed lines) */
+  oldLine?: number
+  /** 1-based line in the new text (unchanged and added lines) */
+  newLine?: number
+}
+
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+/** Above this many edits the texts are treated as entirely replaced; the search cost grows with its square */
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Split text into lines, ignoring the final line break
+ */
+export function splitLines(text: string): string[] {
+  if (!text) {
+    return []
+  }
+  return text.replace(/\r?\n$/, "").split(/\r?\n/)
+}
+
+type Op = "=" | "+" | "-"
+
+/**
+ * Shortest edit script from a to b, or undefined when it needs more than MAX_EDIT_DISTANCE edits
+ */
+function myers(a: string[], b: string[]): Op[] | undefined {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // trace[d] holds v for diagonals -d-1..d+1 as it was before step d
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m)
+      }
+    }
+  }
+  return undefined
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Op[] {
+  const ops: Op[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]
+    const at = (k: number) => snapshot[k + d + 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push("=")
+      x--
+      y--
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? "+" : "-")
+    }
+    x = prevX
+    y = prevY
+  }
+  return ops.reverse()
+}
+
+/**
+ * Full line-by-line edit script turning oldText into newText
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // Common prefix and suffix need no search
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++
+  }
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+  const middle: Op[] = myers(midA, midB) ?? [...midA.map((): Op => "-"), ...midB.map((): Op => "+")]
+  const ops: Op[] = [...Array<Op>(prefix).fill("="), ...middle, ...Array<Op>(suffix).fill("=")]
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  for (const op of ops) {
+    if (op === "=") {
+      lines.push({ type: "unchanged", content: a[i], oldLine: i + 1, newLine: j + 1 })
+      i++
+      j++
+    } else if (op === "-") {
+      lines.push({ type: "removed", content: a[i], oldLine: i + 1 })
+      i++
+    } else {
+      lines.push({ type: "added", content: b[j], newLine: j + 1 })
+      j++
+    }
+  }
+  return lines
+}
+
+/**
+ * Group an edit script into hunks with `context` unchanged lines around each change
+ * Changes closer than twice the context share a hunk
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let index = 0
+  while (index < lines.length) {
+    if (lines[index].type === "unchanged") {
+      index++
+      continue
+    }
+
+    const start = Math.max(0, index - context)
+    let end = index
+    let unchangedRun = 0
+    for (let i = index; i < lines.length; i++) {
+      if (lines[i].type === "unchanged") {
+        unchangedRun++
+        if (unchangedRun > 2 * context) {
+          break
+        }
+      } else {
+        unchangedRun = 0
+        end = i
+      }
+    }
+    const stop = Math.min(lines.length, end + context + 1)
+    const slice = lines.slice(start, stop)
+
+    // Lines before the hunk in each text give its start (a hunk with no old lines starts after them)
+    const before = lines.slice(0, start)
+    const oldBefore = before.filter((l) => l.type !== "added").length
+    const newBefore = before.filter((l) => l.type !== "removed").length
+    const oldLines = slice.filter((l) => l.type !== "added").length
+    const newLines = slice.filter((l) => l.type !== "removed").length
+    hunks.push({
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: slice,
+    })
+    index = stop
+  }
+  return hunks
+}
+
+/**
+ * Apply a subset of hunks (in order) to a text, keeping its line endings
+ * Each hunk's old side, context included, must still be found at its position
+ * @throws Error when a hunk no longer matches the text
+ */
+export function applyHunks(text: string, hunks: DiffHunk[]): string {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n"
+  const lines = splitLines(text)
+  // Lines added minus lines removed by the hunks applied so far
+  let shift = 0
+
+  for (const hunk of hunks) {
+    const oldSide = hunk.lines.filter((l) => l.type !== "added").map((l) => l.content)
+    const newSide = hunk.lines.filter((l) => l.type !== "removed").map((l) => l.content)
+    // A hunk without old lines inserts after line oldStart
+    const at = (hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart) + shift
+    const current = lines.slice(at, at + oldSide.length)
+    if (at < 0 || current.length !== oldSide.length || current.some((line, i) => line !== oldSide[i])) {
+      throw new Error(`Hunk @@ -${hunk.oldStart},${hunk.oldLines} @@ no longer matches the file`)
+    }
+    lines.splice(at, oldSide.length, ...newSide)
+    shift += newSide.length - oldSide.length
+  }
+
+  if (lines.length === 0) {
+    return ""
+  }
+  // A new file gets a final line break; otherwise keep the original's choice
+  const finalBreak = text ? /\r?\n$/.test(text) : true
+  return lines.join(eol) + (finalBreak ? eol : "")
+}
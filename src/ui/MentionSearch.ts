@@ -0,0 +1,74 @@
+/**
+ * Fuzzy matching for @-mentions in the chat input
+ */
+
+export interface MentionResult {
+  type: "file" | "folder" | "code"
+  /** Absolute path on disk */
+  path: string
+  /** Label inserted in the mention token */
+  name: string
+  /** Secondary text in the popup (relative path, symbol kind) */
+  detail?: string
+  lineStart?: number
+  lineEnd?: number
+}
+
+const SEPARATORS = "/\\._- "
+
+/**
+ * Score a candidate for a query typed after "@": every query character must appear in order
+ * Consecutive runs, segment starts and matches in the last path segment score higher
+ * @returns undefined when the candidate does not match
+ */
+export function fuzzyScore(query: string, candidate: string): number | undefined {
+  if (!query) {
+    return 0
+  }
+  const q = query.toLowerCase()
+  const c = candidate.toLowerCase()
+  const baseStart = Math.max(c.lastIndexOf("/"), c.lastIndexOf("\\")) + 1
+
+  let score = 0
+  let qi = 0
+  let previous = -2
+  for (let ci = 0; ci < c.length && qi < q.length; ci++) {
+    if (c[ci] !== q[qi]) {
+      continue
+    }
+    score += 1
+    if (ci === previous + 1) {
+      score += 5
+    }
+    if (ci === 0 || SEPARATORS.includes(c[ci - 1])) {
+      score += 3
+    }
+    if (ci >= baseStart) {
+      score += 2
+    }
+    previous = ci
+    qi++
+  }
+  return qi < q.length ? undefined : score
+}
+
+/**
+ * Best matches for a query, highest score first
+ * @param candidates Items to rank
+ * @param key Text matched against the query (e.g. the workspace-relative path)
+ */
+export function rankMatches<T>(query: string, candidates: T[], key: (item: T) => string, limit = 20): T[] {
+  const matches: Array<{ item: T; score: number; length: number }> = []
+  for (const item of candidates) {
+    const text = key(item)
+    const score = fuzzyScore(query, text)
+    if (score !== undefined) {
+      matches.push({ item, score, length: text.length })
+    }
+  }
+  // Shorter candidates win among equal scores
+  return matches
+    .sort((a, b) => b.score - a.score || a.length - b.length)
+    .slice(0, limit)
+    .map((m) => m.item)
+}
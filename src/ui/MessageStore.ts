@@ -0,0 +1,102 @@
+import { MessageInfo, MessagePart, SessionMessage } from "../backend/OpenCodeClient"
+
+/**
+ * Assembles streamed messages from message.updated / message.part.updated events
+ * Messages are keyed by messageID and parts by partID, so deltas for different parts never overwrite each other
+ */
+
+export interface StoredMessage {
+  id: string
+  sessionID: string
+  role?: "user" | "assistant"
+  time?: MessageInfo["time"]
+  info?: MessageInfo
+  // Parts in the order they were first seen
+  parts: MessagePart[]
+}
+
+export class MessageStore {
+  private messages = new Map<string, StoredMessage>()
+
+  /**
+   * Record message metadata (role, timestamps) from a message.updated event
+   * @param info Message info
+   */
+  updateMessage(info: MessageInfo): StoredMessage {
+    const message = this.getOrCreate(info.id, info.sessionID)
+    message.role = info.role
+    message.time = info.time
+    message.info = info
+    return message
+  }
+
+  /**
+   * Merge a part from a message.part.updated event
+   * The full part text wins when present; otherwise the delta is appended to what we already have
+   * @param part Part payload
+   * @param delta Incremental text, if the backend sent one
+   */
+  updatePart(part: MessagePart, delta?: string): StoredMessage {
+    const message = this.getOrCreate(part.messageID, part.sessionID)
+    const index = message.parts.findIndex((p) => p.id === part.id)
+    const previous = index >= 0 ? message.parts[index] : undefined
+
+    const next: MessagePart = { ...previous, ...part }
+    if (typeof part.text !== "string" && delta) {
+      next.text = (previous?.text || "") + delta
+    }
+
+    if (index >= 0) {
+      message.parts[index] = next
+    } else {
+      message.parts.push(next)
+    }
+    return message
+  }
+
+  /**
+   * Replace the store content with a full session transcript
+   * @param entries Messages from GET /session/{id}/message
+   */
+  load(entries: SessionMessage[]): void {
+    this.messages.clear()
+    for (const entry of entries) {
+      this.updateMessage(entry.info)
+      for (const part of entry.parts || []) {
+        this.updatePart(part)
+      }
+    }
+  }
+
+  getMessage(messageId: string): StoredMessage | undefined {
+    return this.messages.get(messageId)
+  }
+
+  getMessages(): StoredMessage[] {
+    return [...this.messages.values()]
+  }
+
+  clear(): void {
+    this.messages.clear()
+  }
+
+  private getOrCreate(id: string, sessionID: string): StoredMessage {
+    let message = this.messages.get(id)
+    if (!message) {
+      message = { id, sessionID, parts: [] }
+      this.messages.set(id, message)
+    }
+    return message
+  }
+}
+
+/**
+ * Concatenate the visible text parts of a message
+ * @param message Stored message
+ */
+export function messageText(message: StoredMessage): string {
+  return message.parts
+    .filter((p) => p.type === "text" && typeof p.text === "string" && !p.synthetic)
+    .map((p) => p.text)
+    .join("")
+}
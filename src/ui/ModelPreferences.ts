@@ -0,0 +1,94 @@
+import * as vscode from "vscode"
+import { ProvidersResponse } from "../backend/OpenCodeClient"
+
+/**
+ * Model choice, favourites and recently used models, kept in globalState so they follow the user across workspaces
+ */
+
+export interface ModelRef {
+  providerID: string
+  modelID: string
+  variant?: string
+}
+
+export interface ModelOption {
+  providerID: string
+  providerName: string
+  modelID: string
+  name: string
+  variants: string[]
+  contextLimit?: number
+}
+
+const SELECTED_KEY = "opencode.model.selected"
+const FAVOURITES_KEY = "opencode.model.favourites"
+const RECENT_KEY = "opencode.model.recent"
+const MAX_RECENT = 5
+
+export function sameModel(a: ModelRef, b: ModelRef): boolean {
+  return a.providerID === b.providerID && a.modelID === b.modelID
+}
+
+/**
+ * Flatten the /config/providers response into a sorted list of selectable models
+ * @param response Providers response
+ */
+export function toModelOptions(response: ProvidersResponse): ModelOption[] {
+  const options: ModelOption[] = []
+  for (const provider of response.providers) {
+    for (const model of Object.values(provider.models || {})) {
+      options.push({
+        providerID: provider.id,
+        providerName: provider.name || provider.id,
+        modelID: model.id,
+        name: model.name || model.id,
+        variants: Object.keys(model.variants || {}),
+        contextLimit: model.limit?.context,
+      })
+    }
+  }
+  return options.sort((a, b) => a.providerName.localeCompare(b.providerName) || a.name.localeCompare(b.name))
+}
+
+export class ModelPreferences {
+  private state: vscode.Memento
+
+  constructor(state: vscode.Memento) {
+    this.state = state
+  }
+
+  getSelected(): ModelRef | undefined {
+    return this.state.get<ModelRef>(SELECTED_KEY)
+  }
+
+  async setSelected(model: ModelRef | undefined): Promise<void> {
+    await this.state.update(SELECTED_KEY, model)
+  }
+
+  getFavourites(): ModelRef[] {
+    return this.state.get<ModelRef[]>(FAVOURITES_KEY, [])
+  }
+
+  async toggleFavourite(model: ModelRef): Promise<void> {
+    const favourites = this.getFavourites()
+    const next = favourites.some((f) => sameModel(f, model))
+      ? favourites.filter((f) => !sameModel(f, model))
+      : [...favourites, { providerID: model.providerID, modelID: model.modelID }]
+    await this.state.update(FAVOURITES_KEY, next)
+  }
+
+  getRecent(): ModelRef[] {
+    return this.state.get<ModelRef[]>(RECENT_KEY, [])
+  }
+
+  /**
+   * Move a model to the front of the recent list
+   */
+  async addRecent(model: ModelRef): Promise<void> {
+    const recent = [
+      { providerID: model.providerID, modelID: model.modelID },
+      ...this.getRecent().filter((r) => !sameModel(r, model)),
+    ].slice(0, MAX_RECENT)
+    await this.state.update(RECENT_KEY, recent)
+  }
+}
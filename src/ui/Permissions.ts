@@ -0,0 +1,54 @@
+/**
+ * Helpers for backend permission requests (permission.updated events)
+ * The backend pauses the agent until POST /session/{id}/permissions/{permissionID} is answered
+ */
+
+export type PermissionResponse = "once" | "always" | "reject"
+
+export interface PermissionRequest {
+  id: string
+  type: string
+  sessionID: string
+  messageID?: string
+  callID?: string
+  title: string
+  pattern?: string | string[]
+  metadata?: Record<string, any>
+  time?: { created: number }
+}
+
+// Shell commands that delete data, escalate privileges, rewrite history or pipe remote code into a shell
+const HIGH_RISK_COMMANDS = [
+  /\brm\s+(-\w*[rf]\w*\s+)+/,
+  /\bsudo\b/,
+  /\bgit\s+push\b.*(--force\b|-f\b)/,
+  /\bgit\s+(reset\s+--hard|clean\s+-\w*f)/,
+  /\b(curl|wget)\b[^|]*\|\s*(ba|z)?sh\b/,
+  /\b(mkfs|dd|shutdown|reboot)\b/,
+  /\bchmod\s+(-R\s+)?777\b/,
+]
+
+/**
+ * Command line a bash permission asks to run, if any
+ * @param permission Permission request
+ */
+export function permissionCommand(permission: PermissionRequest): string | undefined {
+  const command = permission.metadata?.command
+  if (typeof command === "string") {
+    return command
+  }
+  const pattern = Array.isArray(permission.pattern) ? permission.pattern.join(" ") : permission.pattern
+  return permission.type === "bash" ? pattern : undefined
+}
+
+/**
+ * Whether a permission is a bash command dangerous enough to warrant a modal confirmation
+ * @param permission Permission request
+ */
+export function isHighRiskPermission(permission: PermissionRequest): boolean {
+  if (permission.type !== "bash") {
+    return false
+  }
+  const command = permissionCommand(permission)
+  return !!command && HIGH_RISK_COMMANDS.some((re) => re.test(command))
+}
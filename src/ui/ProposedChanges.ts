@@ -0,0 +1,112 @@
+import * as vscode from "vscode"
+import * as fs from "fs"
+import { logger } from "../globals"
+
+/**
+ * Proposed file contents shown in VS Code's diff editor under the opencode-proposed: scheme
+ * Accept / Reject (editor title actions) hand the code back to the view that proposed it
+ */
+
+export const PROPOSED_SCHEME = "opencode-proposed"
+
+export interface Proposal {
+  filePath: string
+  fileName: string
+  code: string
+  /** Apply the code to the real file; resolves true when it was written */
+  apply(code: string): Promise<boolean>
+}
+
+class ProposedChanges implements vscode.TextDocumentContentProvider {
+  // Keyed by the proposed URI; one proposal per file, a newer one replaces it
+  private proposals = new Map<string, Proposal>()
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange = this.changeEmitter.event
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposals.get(uri.toString())?.code ?? ""
+  }
+
+  /**
+   * Open the real file against the proposed code in the diff editor
+   * A file that does not exist yet opens as the proposed document alone
+   */
+  async open(proposal: Proposal): Promise<void> {
+    const fileUri = vscode.Uri.file(proposal.filePath)
+    // Same path as the file so the diff editor picks its language
+    const proposedUri = fileUri.with({ scheme: PROPOSED_SCHEME })
+    const key = proposedUri.toString()
+    const replaced = this.proposals.has(key)
+    this.proposals.set(key, proposal)
+    if (replaced) {
+      this.changeEmitter.fire(proposedUri)
+    }
+
+    logger.appendLine(`[ProposedChanges] Opening diff editor for ${proposal.filePath}`)
+    if (fs.existsSync(proposal.filePath)) {
+      await vscode.commands.executeCommand("vscode.diff", fileUri, proposedUri, `${proposal.fileName} ↔ Proposed (OpenCode)`)
+    } else {
+      await vscode.window.showTextDocument(proposedUri, { preview: false })
+    }
+  }
+
+  /**
+   * Apply the proposal with the given proposed URI (editor title action) and close it
+   */
+  async accept(uri?: vscode.Uri): Promise<void> {
+    const target = this.resolve(uri)
+    if (!target) {
+      return
+    }
+    const applied = await target.proposal.apply(target.proposal.code)
+    if (applied) {
+      await this.close(target.key)
+    }
+  }
+
+  /**
+   * Drop the proposal with the given proposed URI (editor title action) and close it
+   */
+  async reject(uri?: vscode.Uri): Promise<void> {
+    const target = this.resolve(uri)
+    if (target) {
+      logger.appendLine(`[ProposedChanges] Rejected proposal for ${target.proposal.filePath}`)
+      await this.close(target.key)
+    }
+  }
+
+  private resolve(uri?: vscode.Uri): { key: string; proposal: Proposal } | undefined {
+    // No URI (e.g. run from the command palette): the target is not guessed from whatever editor has focus
+    if (!uri) {
+      vscode.window.showWarningMessage("Use Accept or Reject in the title bar of the OpenCode proposal's editor.")
+      return undefined
+    }
+    const key = uri.scheme === PROPOSED_SCHEME ? uri.toString() : undefined
+    const proposal = key ? this.proposals.get(key) : undefined
+    if (!key || !proposal) {
+      vscode.window.showWarningMessage("No OpenCode proposal is open in this editor.")
+      return undefined
+    }
+    return { key, proposal }
+  }
+
+  private async close(key: string): Promise<void> {
+    this.proposals.delete(key)
+    // Close every tab showing the proposal, diff or plain
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter((tab) => {
+        const input = tab.input
+        if (input instanceof vscode.TabInputTextDiff) {
+          return input.modified.toString() === key
+        }
+        return input instanceof vscode.TabInputText && input.uri.toString() === key
+      })
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs)
+    }
+  }
+}
+
+// Singleton instance
+export const proposedChanges = new ProposedChanges()
@@ -0,0 +1,42 @@
+/**
+ * Failures reported by the backend during a run (session.error), reduced to what the chat shows
+ */
+
+export type SessionErrorCategory = "auth" | "rate_limit" | "provider" | "output_length" | "aborted" | "request" | "unknown"
+
+export interface SessionError {
+  category: SessionErrorCategory
+  message: string
+  /** Backend error name (e.g. APIError, ProviderAuthError) */
+  name?: string
+}
+
+/**
+ * Map a backend error payload ({name, data: {message, statusCode?, providerID?}}) to a chat error
+ * @param error properties.error of a session.error event, or an assistant message's info.error
+ */
+export function describeSessionError(error: any): SessionError {
+  const name: string | undefined = typeof error?.name === "string" ? error.name : undefined
+  const data = error?.data ?? {}
+  const message: string =
+    (typeof data.message === "string" && data.message) ||
+    (typeof error?.message === "string" && error.message) ||
+    name ||
+    "Unknown error"
+
+  switch (name) {
+    case "ProviderAuthError":
+      return { category: "auth", message: data.providerID ? `${data.providerID}: ${message}` : message, name }
+    case "MessageOutputLengthError":
+      return { category: "output_length", message: "The response hit the model's output length limit", name }
+    case "MessageAbortedError":
+      return { category: "aborted", message, name }
+    case "APIError":
+      if (data.statusCode === 429 || /rate.?limit/i.test(message)) {
+        return { category: "rate_limit", message, name }
+      }
+      return { category: "provider", message: data.statusCode ? `${message} (HTTP ${data.statusCode})` : message, name }
+    default:
+      return { category: "unknown", message, name }
+  }
+}
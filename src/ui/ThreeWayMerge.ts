@@ -0,0 +1,114 @@
+import { diffLines, splitLines } from "./LineDiff"
+
+/**
+ * Line-based three-way merge of the user's edits and a proposal made from an older copy of the file
+ * Changes that do not touch the same base lines are combined; the rest become conflict blocks
+ */
+
+export interface MergeResult {
+  text: string
+  /** Conflict blocks written with <<<<<<< / ======= / >>>>>>> markers */
+  conflicts: number
+}
+
+/** One side's change: base lines [start, end) replaced by `lines` */
+interface Change {
+  side: "current" | "proposed"
+  start: number
+  end: number
+  lines: string[]
+}
+
+export const CONFLICT_MARKERS = {
+  current: "<<<<<<< Current (your edits)",
+  separator: "=======",
+  proposed: ">>>>>>> Proposed (OpenCode)",
+}
+
+function changesAgainstBase(base: string, other: string, side: Change["side"]): Change[] {
+  const changes: Change[] = []
+  let baseIndex = 0
+  let open: Change | undefined
+  for (const line of diffLines(base, other)) {
+    if (line.type === "unchanged") {
+      open = undefined
+      baseIndex++
+      continue
+    }
+    if (!open) {
+      open = { side, start: baseIndex, end: baseIndex, lines: [] }
+      changes.push(open)
+    }
+    if (line.type === "removed") {
+      baseIndex++
+      open.end = baseIndex
+    } else {
+      open.lines.push(line.content)
+    }
+  }
+  return changes
+}
+
+// Touching changes count as overlapping, like git: an edit right next to another is not merged silently
+const touches = (a: { start: number; end: number }, b: { start: number; end: number }) => a.start <= b.end && b.start <= a.end
+
+/**
+ * Base lines [start, end) with one side's changes inside that range applied
+ */
+function sideText(baseLines: string[], start: number, end: number, changes: Change[]): string[] {
+  const out: string[] = []
+  let index = start
+  for (const change of changes) {
+    out.push(...baseLines.slice(index, change.start), ...change.lines)
+    index = change.end
+  }
+  out.push(...baseLines.slice(index, end))
+  return out
+}
+
+/**
+ * Merge `current` (the file now) and `proposed` (the answer), both derived from `base`
+ * Line endings and the final line break follow `current`
+ */
+export function mergeThreeWay(base: string, current: string, proposed: string): MergeResult {
+  const baseLines = splitLines(base)
+  const all = [...changesAgainstBase(base, current, "current"), ...changesAgainstBase(base, proposed, "proposed")].sort(
+    (a, b) => a.start - b.start || a.end - b.end,
+  )
+
+  // Group changes that touch into clusters over one base range
+  const clusters: Array<{ start: number; end: number; changes: Change[] }> = []
+  for (const change of all) {
+    const last = clusters[clusters.length - 1]
+    if (last && touches(last, change)) {
+      last.end = Math.max(last.end, change.end)
+      last.changes.push(change)
+    } else {
+      clusters.push({ start: change.start, end: change.end, changes: [change] })
+    }
+  }
+
+  const out: string[] = []
+  let conflicts = 0
+  let index = 0
+  for (const cluster of clusters) {
+    out.push(...baseLines.slice(index, cluster.start))
+    const mine = sideText(baseLines, cluster.start, cluster.end, cluster.changes.filter((c) => c.side === "current"))
+    const theirs = sideText(baseLines, cluster.start, cluster.end, cluster.changes.filter((c) => c.side === "proposed"))
+    const sides = new Set(cluster.changes.map((c) => c.side))
+
+    if (sides.size === 1 || mine.join("\n") === theirs.join("\n")) {
+      // Only one side changed this range, or both made the same change
+      out.push(...(sides.has("proposed") ? theirs : mine))
+    } else {
+      conflicts++
+      out.push(CONFLICT_MARKERS.current, ...mine, CONFLICT_MARKERS.separator, ...theirs, CONFLICT_MARKERS.proposed)
+    }
+    index = cluster.end
+  }
+  out.push(...baseLines.slice(index))
+
+  const eol = current.includes("\r\n") ? "\r\n" : "\n"
+  const finalBreak = current ? /\r?\n$/.test(current) : /\r?\n$/.test(proposed)
+  return { text: out.length > 0 ? out.join(eol) + (finalBreak ? eol : "") : "", conflicts }
+}
@@ -0,0 +1,58 @@
+import { MessageInfo } from "../backend/OpenCodeClient"
+
+/**
+ * Token and cost accounting from assistant message metadata (info.tokens / info.cost)
+ */
+
+export interface TokenUsage {
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+}
+
+export interface MessageUsage {
+  tokens: TokenUsage
+  cost: number
+}
+
+/**
+ * Usage reported for an assistant message, if the backend has filled it in yet
+ * @param info Message info from message.updated or the session transcript
+ */
+export function messageUsage(info?: MessageInfo): MessageUsage | undefined {
+  if (!info || info.role !== "assistant" || !info.tokens) {
+    return undefined
+  }
+  const tokens = info.tokens
+  return {
+    tokens: {
+      input: tokens.input ?? 0,
+      output: tokens.output ?? 0,
+      reasoning: tokens.reasoning ?? 0,
+      cacheRead: tokens.cache?.read ?? 0,
+      cacheWrite: tokens.cache?.write ?? 0,
+    },
+    cost: info.cost ?? 0,
+  }
+}
+
+export function sumUsage(usages: Array<MessageUsage | undefined>): MessageUsage {
+  const total: MessageUsage = {
+    tokens: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0 },
+    cost: 0,
+  }
+  for (const usage of usages) {
+    if (!usage) {
+      continue
+    }
+    total.tokens.input += usage.tokens.input
+    total.tokens.output += usage.tokens.output
+    total.tokens.reasoning += usage.tokens.reasoning
+    total.tokens.cacheRead += usage.tokens.cacheRead
+    total.tokens.cacheWrite += usage.tokens.cacheWrite
+    total.cost += usage.cost
+  }
+  return total
+}
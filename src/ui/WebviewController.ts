@@ -1,7 +1,7 @@
 import * as vscode from "vscode"
-import * as http from "http"
 import * as path from "path"
 import { BackendConnection } from "../backend/BackendLauncher"
+import { AgentInfo, OpenCodeClient, ProvidersResponse, SessionInfo, SessionMessage } from "../backend/OpenCodeClient"
 import { SettingsManager } from "../settings/SettingsManager"
 import { CommunicationBridge } from "./CommunicationBridge"
 import { FileMonitor } from "../utils/FileMonitor"
@@ -9,6 +9,23 @@ import { errorHandler } from "../utils/ErrorHandler"
 import { PathInserter } from "../utils/PathInserter"
 import { logger } from "../globals"
 import { bridgeServer } from "./IdeBridgeServer"
+import { toHistoryMessages } from "./ChatHistory"
+import { MessageUsage, messageUsage, sumUsage } from "./Usage"
+import { MessageStore, StoredMessage } from "./MessageStore"
+import { PermissionRequest, isHighRiskPermission, permissionCommand } from "./Permissions"
+import { ServerEvent } from "../backend/ServerEvents"
+import { SessionError, describeSessionError } from "./SessionErrors"
+import { ContextItem, inlineContextText, toFilePart } from "./ContextParts"
+import { ContextSetItem, ContextSets } from "./ContextSets"
+import { MentionResult, rankMatches } from "./MentionSearch"
+import { ContextEstimate, estimateTokens, parseLineRange, sliceLines, truncateContent } from "./ContextBudget"
+import { FolderContext, FolderContextOptions, buildFolderContext, formatFolderContext } from "./FolderContext"
+import { EventStreamState } from "../backend/EventStreamClient"
+import { EventHub, EventSubscription } from "../backend/EventHub"
+import { ModelPreferences, ModelRef, sameModel, toModelOptions } from "./ModelPreferences"
+import { nextAgent, resolveAgent, selectableAgents } from "./Agents"
+import { contextSnapshots } from "./ContextSnapshots"
+import { readCurrentText } from "./WorkspaceApply"
 
 /**
  * Shared webview controller to manage common UI lifecycle and messaging
@@ -22,21 +39,47 @@ export interface WebviewControllerOptions {
   uiSetState?: (state: any) => Promise<void>
 }
 
+const ACTIVE_SESSION_KEY = "opencode.activeSessionId"
+const AGENT_KEY = "opencode.agent"
+
 export class WebviewController {
+  private static controllers = new Map<CommunicationBridge, WebviewController>()
+  private static permissionModals = new Set<string>()
+
+  /**
+   * Get the controller behind the currently active communication bridge
+   * (the same container PathInserter routes editor commands to)
+   */
+  static getActive(): WebviewController | undefined {
+    const bridge = PathInserter.getCommunicationBridge()
+    if (bridge && WebviewController.controllers.has(bridge)) {
+      return WebviewController.controllers.get(bridge)
+    }
+    const all = [...WebviewController.controllers.values()]
+    return all.length > 0 ? all[all.length - 1] : undefined
+  }
+
   private webview: vscode.Webview
   private context: vscode.ExtensionContext
   private settingsManager?: SettingsManager
   private communicationBridge?: CommunicationBridge
   private fileMonitor?: FileMonitor
   private connection?: BackendConnection
+  private client?: OpenCodeClient
   private disposables: vscode.Disposable[] = []
   private bridgeSessionId: string | null = null
   private uiGetState?: () => Promise<any>
   private uiSetState?: (state: any) => Promise<void>
+  private modelPreferences: ModelPreferences
+  private contextSets: ContextSets
+  private providers?: ProvidersResponse
+  private agents?: AgentInfo[]
 
   constructor(opts: WebviewControllerOptions) {
     this.webview = opts.webview
     this.context = opts.context
+    this.modelPreferences = new ModelPreferences(opts.context.globalState)
+    this.contextSets = new ContextSets(opts.context.workspaceState)
     this.settingsManager = opts.settingsManager
     this.uiGetState = opts.uiGetState
     this.uiSetState = opts.uiSetState
@@ -48,6 +91,8 @@ export class WebviewController {
 
   async load(connection: BackendConnection): Promise<void> {
     this.connection = connection
+    this.client = OpenCodeClient.fromConnection(connection)
+    this.fileParts = this.client.supportsFileParts()
     logger.appendLine('[WebviewController] load() started');
 
     try {
@@ -56,6 +101,7 @@ export class WebviewController {
         webview: this.webview,
         context: this.context,
       })
+      WebviewController.controllers.set(this.communicationBridge, this)
 
       // Configure callbacks for extended message handling
 
@@ -69,6 +115,82 @@ export class WebviewController {
       })
       console.log('[WebviewController] ChatSendCallback SET successfully');
 
+      this.communicationBridge.setChatAbortCallback(async () => {
+        await this.abort()
+      })
+
+      this.communicationBridge.setChatRetryCallback(async () => {
+        await this.retryLastPrompt()
+      })
+
+      this.communicationBridge.setDescribeFolderCallback(async (id: string, folderPath: string) => {
+        await this.describeFolder(id, folderPath)
+      })
+
+      this.communicationBridge.setContextEstimateCallback(async (items: any[], options?: any) => {
+        await this.estimateContext(items, options)
+      })
+
+      this.communicationBridge.setContextReduceCallback(async (item: any, action: string) => {
+        await this.reduceContextItem(item, action)
+      })
+
+      this.communicationBridge.setContextPinCallback(async (items: ContextSetItem[]) => {
+        await this.savePinnedContext(items)
+      })
+
+      this.communicationBridge.setContextSetsCallback(async (items: ContextSetItem[]) => {
+        await this.showContextSets(items)
+      })
+
+      this.communicationBridge.setMentionSearchCallback(async (query: string, kind: string, requestId: number) => {
+        await this.searchMentions(query, kind, requestId)
+      })
+
+      this.communicationBridge.setMentionResolveCallback(async (item: ContextItem & { id: string }) => {
+        await this.resolveMentionedSymbol(item)
+      })
+
+      this.communicationBridge.setUIReadyCallback(async () => {
+        // A freshly loaded webview starts empty, so the transcript has to be sent again
+        this.historySessionId = null
+        if (this.eventHub) {
+          this.sendStreamState(this.eventHub.getState())
+        }
+        await this.sendSessionState()
+        this.providers = undefined
+        this.agents = undefined
+        await this.sendModelState()
+        await this.sendAgentState()
+        this.sendUISettings()
+      })
+
+      this.communicationBridge.setAgentSelectCallback(async (agent?: string) => {
+        await this.selectAgent(agent)
+      })
+
+      this.communicationBridge.setSessionActionCallback(async (action: string, sessionId?: string) => {
+        await this.handleSessionAction(action, sessionId)
+      })
+
+      this.communicationBridge.setModelActionCallback(async (action: string, model?: ModelRef) => {
+        await this.handleModelAction(action, model)
+      })
+
+      this.communicationBridge.setPermissionResponseCallback(async (permissionId: string, response: string) => {
+        await this.respondPermission(permissionId, response)
+      })
+
+      this.disposables.push(
+        vscode.workspace.onDidChangeConfiguration((e) => {
+          if (e.affectsConfiguration("opencode.chat")) {
+            this.sendUISettings()
+          }
+        }),
+        vscode.workspace.onDidChangeTextDocument((e) => this.scheduleContextEstimate(e.document)),
+        vscode.workspace.onDidSaveTextDocument((document) => this.scheduleContextEstimate(document)),
+      )
+
       // Make PathInserter aware of the active communication bridge
       // NOTE: PathInserter is now set by container visibility (editor panel / sidebar).
 
@@ -196,6 +318,9 @@ export class WebviewController {
       })
       logger.appendLine(`[WebviewController] Sent connection status to webview: reused=${connection.reused}`)
 
+      // Listen for backend events right away (permission prompts and other panels' activity too)
+      this.startEventStreamListener()
+
     } catch (error) {
       await errorHandler.handleWebviewLoadError(error instanceof Error ? error : new Error(String(error)), {
         connection,
@@ -205,48 +330,601 @@ export class WebviewController {
   }
 
   private sessionId: string | null = null
+  private historySessionId: string | null = null
+  private generating = false
+  private lastPrompt?: { text: string; context?: any[]; options?: any }
+  // Detected at connect time; old backends get context inlined as text
+  private fileParts: Promise<boolean> = Promise.resolve(false)
+  private messageStore = new MessageStore()
+  private pendingPermissions = new Map<string, PermissionRequest>()
+  private backgroundSessions = new Set<string>()
+  private budgetWarnedSessions = new Set<string>()
+  // Last context estimate request, redone when editors change (unsaved tags, sizes)
+  private lastEstimate?: { items: Array<ContextItem & { id: string }>; options?: any }
+  private estimateTimer?: NodeJS.Timeout
+  // Workspace file list for @-mentions, reused while the user keeps typing
+  private mentionFiles?: { at: number; uris: vscode.Uri[] }
 
   private async getOrCreateSession(): Promise<string> {
-    const uiBaseUrl = new URL(this.connection!.uiBase)
-    const baseUrl = uiBaseUrl.origin
-
-    // Try to get existing sessions first
+    // Prefer the session last used in this workspace, then the most recently updated one
     logger.appendLine('[WebviewController] Fetching existing sessions...');
-    console.log('[WebviewController] Fetching existing sessions from:', `${baseUrl}/session`);
-    const sessionsResponse = await fetch(`${baseUrl}/session`)
-    console.log('[WebviewController] Sessions response status:', sessionsResponse.status);
-    
-    if (sessionsResponse.ok) {
-      const sessions = await sessionsResponse.json() as Array<{id: string}>;
-      console.log('[WebviewController] Sessions:', sessions);
-      
-      if (sessions && sessions.length > 0) {
-        logger.appendLine(`[WebviewController] Found existing session: ${sessions[0].id}`)
-        return sessions[0].id
+    try {
+      const sessions = await this.client!.listSessions()
+      const remembered = this.context.workspaceState.get<string>(ACTIVE_SESSION_KEY)
+      const existing = sessions.find((s) => s.id === remembered) ?? sessions[0]
+      if (existing) {
+        logger.appendLine(`[WebviewController] Found existing session: ${existing.id}`)
+        await this.setActiveSession(existing.id)
+        return existing.id
       }
+    } catch (err) {
+      logger.appendLine(`[WebviewController] Could not list sessions: ${err}`)
     }
 
     // Create a new session if none exists
-    console.log('[WebviewController] Creating new session...');
-    const createResponse = await fetch(`${baseUrl}/session`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ title: "VS Code Chat" }),
+    const newSession = await this.client!.createSession("VS Code Chat")
+    logger.appendLine(`[WebviewController] Created new session: ${newSession.id}`)
+    await this.setActiveSession(newSession.id)
+    return newSession.id
+  }
+
+  /**
+   * Get the ID of the session prompts are currently sent to
+   */
+  getActiveSessionId(): string | null {
+    return this.sessionId
+  }
+
+  private async setActiveSession(sessionId: string | null): Promise<void> {
+    if (sessionId !== this.sessionId) {
+      this.messageStore.clear()
+      this.pendingPermissions.clear()
+      if (sessionId && this.backgroundSessions.delete(sessionId)) {
+        this.communicationBridge?.sendMessage({
+          type: "session.activity",
+          sessionIds: [...this.backgroundSessions],
+        })
+      }
+    }
+    this.sessionId = sessionId
+    await this.context.workspaceState.update(ACTIVE_SESSION_KEY, sessionId ?? undefined)
+  }
+
+  /**
+   * Push the session list and the active session ID to the webview
+   */
+  async sendSessionState(): Promise<void> {
+    if (!this.client || !this.communicationBridge) {
+      return
+    }
+
+    try {
+      if (!this.sessionId) {
+        this.sessionId = await this.getOrCreateSession()
+      }
+      const sessions = await this.client.listSessions()
+      this.communicationBridge.sendMessage({
+        type: "session.state",
+        sessions: sessions.map((s) => ({ id: s.id, title: s.title, updated: s.time?.updated ?? 0 })),
+        activeSessionId: this.sessionId,
+      })
+
+      if (this.historySessionId !== this.sessionId) {
+        await this.sendHistory(this.sessionId)
+        await this.sendPinnedContext()
+      }
+    } catch (error) {
+      logger.appendLine(`[WebviewController] Failed to send session state: ${error}`)
+    }
+  }
+
+  /**
+   * Load a session transcript from the backend and hydrate the chat view with it
+   * @param sessionId Session whose messages should be shown
+   */
+  /**
+   * Load a session's transcript into the message store and the webview
+   * @param onlyIfChanged Skip the webview update when the transcript matches what it already shows, so
+   *   local-only bubbles (errors, "Generation stopped", interrupted tags) and the scroll position survive
+   */
+  private async sendHistory(sessionId: string, onlyIfChanged = false): Promise<SessionMessage[] | undefined> {
+    if (!this.client || !this.communicationBridge) {
+      return undefined
+    }
+
+    try {
+      const entries = await this.client.getMessages(sessionId)
+      // The active session may have changed while the request was in flight
+      if (sessionId !== this.sessionId) {
+        return undefined
+      }
+      // What the webview shows: the last history plus the live events since, as kept in the store
+      const shown = onlyIfChanged ? JSON.stringify(toHistoryMessages(this.storedEntries(sessionId))) : undefined
+      this.messageStore.load(entries)
+      const messages = toHistoryMessages(entries)
+      if (shown === JSON.stringify(messages)) {
+        this.historySessionId = sessionId
+        logger.appendLine(`[WebviewController] History of session ${sessionId} unchanged; not resent`)
+        return entries
+      }
+      this.communicationBridge.sendMessage({
+        type: "chat.history",
+        sessionId,
+        messages,
+      })
+      this.historySessionId = sessionId
+      logger.appendLine(`[WebviewController] Restored ${messages.length} messages for session ${sessionId}`)
+      this.sendSessionUsage()
+      return entries
+    } catch (error) {
+      logger.appendLine(`[WebviewController] Failed to load history for session ${sessionId}: ${error}`)
+      return undefined
+    }
+  }
+
+  private storedEntries(sessionId: string): SessionMessage[] {
+    return this.messageStore
+      .getMessages()
+      .filter((m) => m.sessionID === sessionId && m.info)
+      .map((m) => ({ info: m.info!, parts: m.parts }))
+  }
+
+  /**
+   * When the session is over budget and blocking is enabled, ask before sending another prompt
+   * @returns false if the prompt must not be sent
+   */
+  private async checkBudget(): Promise<boolean> {
+    const block = vscode.workspace.getConfiguration("opencode").get<boolean>("budget.blockWhenExceeded", false)
+    const { usage, budget } = this.getSessionUsage()
+    if (!block || budget <= 0 || usage.cost < budget) {
+      return true
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `OpenCode: This session has cost $${usage.cost.toFixed(2)}, over the $${budget.toFixed(2)} budget`,
+      { modal: true },
+      "Send Anyway",
+    )
+    if (choice === "Send Anyway") {
+      return true
+    }
+    this.communicationBridge?.sendMessage({
+      type: "chat.blocked",
+      reason: `Session budget of $${budget.toFixed(2)} exceeded`,
     })
+    return false
+  }
 
-    console.log('[WebviewController] Create session response:', createResponse.status, createResponse.statusText);
+  /**
+   * Total tokens and cost of the active session (from the message store) plus the configured budget
+   */
+  private getSessionUsage(): { usage: MessageUsage; budget: number } {
+    const usage = sumUsage(this.messageStore.getMessages().map((m) => messageUsage(m.info)))
+    const budget = vscode.workspace.getConfiguration("opencode").get<number>("budget.sessionCost", 0)
+    return { usage, budget }
+  }
 
-    if (!createResponse.ok) {
-      throw new Error(`Failed to create session: ${createResponse.status}`)
+  private sendSessionUsage(): void {
+    if (!this.sessionId) {
+      return
     }
+    const { usage, budget } = this.getSessionUsage()
+    this.communicationBridge?.sendMessage({
+      type: "session.usage",
+      sessionId: this.sessionId,
+      usage,
+      budget,
+    })
 
-    const newSession = await createResponse.json() as {id: string}
-    console.log('[WebviewController] New session created:', newSession);
-    logger.appendLine(`[WebviewController] Created new session: ${newSession.id}`)
-    return newSession.id
+    // Warn once per session when it crosses the budget
+    if (budget > 0 && usage.cost >= budget && !this.budgetWarnedSessions.has(this.sessionId)) {
+      this.budgetWarnedSessions.add(this.sessionId)
+      vscode.window.showWarningMessage(
+        `OpenCode: This session has cost $${usage.cost.toFixed(2)}, over the $${budget.toFixed(2)} budget`,
+      )
+    }
+  }
+
+  private async handleSessionAction(action: string, sessionId?: string): Promise<void> {
+    switch (action) {
+      case "list":
+        await this.sendSessionState()
+        break
+      case "switch":
+        if (sessionId) {
+          await this.switchSession(sessionId)
+        } else {
+          await this.pickSession()
+        }
+        break
+      case "create":
+        await this.createSession()
+        break
+      case "rename":
+        await this.renameSession(sessionId)
+        break
+      case "delete":
+        await this.deleteSession(sessionId)
+        break
+      default:
+        logger.appendLine(`[WebviewController] Unknown session action: ${action}`)
+    }
+  }
+
+  /**
+   * Make the given session the target of subsequent prompts
+   * @param sessionId Session ID to switch to
+   */
+  async switchSession(sessionId: string): Promise<void> {
+    if (sessionId === this.sessionId) {
+      return
+    }
+    logger.appendLine(`[WebviewController] Switching to session: ${sessionId}`)
+    await this.setActiveSession(sessionId)
+    await this.sendSessionState()
+  }
+
+  /**
+   * Show a quick pick with all sessions and switch to the chosen one
+   */
+  async pickSession(): Promise<void> {
+    if (!this.client) {
+      return
+    }
+
+    try {
+      const sessions = await this.client.listSessions()
+      const picked = await vscode.window.showQuickPick(
+        sessions.map((s) => ({
+          label: s.title || s.id,
+          description: s.id === this.sessionId ? "(active)" : undefined,
+          detail: `Updated ${new Date(s.time?.updated ?? 0).toLocaleString()}`,
+          session: s,
+        })),
+        { placeHolder: "Select an OpenCode session" },
+      )
+      if (picked) {
+        await this.switchSession(picked.session.id)
+      }
+    } catch (error) {
+      await this.handleSessionError("pickSession", error)
+    }
+  }
+
+  /**
+   * Create a fresh session and make it active
+   */
+  async createSession(): Promise<void> {
+    if (!this.client) {
+      return
+    }
+
+    try {
+      const session = await this.client.createSession("VS Code Chat")
+      logger.appendLine(`[WebviewController] Created new session: ${session.id}`)
+      await this.setActiveSession(session.id)
+      await this.sendSessionState()
+    } catch (error) {
+      await this.handleSessionError("createSession", error)
+    }
+  }
+
+  /**
+   * Rename a session (the active one by default)
+   * @param sessionId Optional session ID
+   */
+  async renameSession(sessionId?: string): Promise<void> {
+    const target = await this.resolveSession(sessionId)
+    if (!target || !this.client) {
+      return
+    }
+
+    const title = await vscode.window.showInputBox({
+      prompt: "New session title",
+      value: target.title,
+      validateInput: (value) => (value.trim().length === 0 ? "Title cannot be empty" : undefined),
+    })
+    if (!title) {
+      return
+    }
+
+    try {
+      await this.client.renameSession(target.id, title.trim())
+      await this.sendSessionState()
+    } catch (error) {
+      await this.handleSessionError("renameSession", error)
+    }
+  }
+
+  /**
+   * Delete a session (the active one by default) after confirmation
+   * @param sessionId Optional session ID
+   */
+  async deleteSession(sessionId?: string): Promise<void> {
+    const target = await this.resolveSession(sessionId)
+    if (!target || !this.client) {
+      return
+    }
+
+    const confirmed = await vscode.window.showWarningMessage(
+      `Delete session "${target.title || target.id}"? This cannot be undone.`,
+      { modal: true },
+      "Delete",
+    )
+    if (confirmed !== "Delete") {
+      return
+    }
+
+    try {
+      await this.client.deleteSession(target.id)
+      await this.contextSets.savePinned(target.id, [])
+      if (target.id === this.sessionId) {
+        await this.setActiveSession(null)
+      }
+      await this.sendSessionState()
+    } catch (error) {
+      await this.handleSessionError("deleteSession", error)
+    }
+  }
+
+  private async resolveSession(sessionId?: string): Promise<SessionInfo | undefined> {
+    if (!this.client) {
+      return undefined
+    }
+    try {
+      const sessions = await this.client.listSessions()
+      return sessions.find((s) => s.id === (sessionId ?? this.sessionId))
+    } catch (error) {
+      await this.handleSessionError("resolveSession", error)
+      return undefined
+    }
+  }
+
+  private async handleSessionError(operation: string, error: unknown): Promise<void> {
+    logger.appendLine(`[WebviewController] ${operation} failed: ${error}`)
+    await errorHandler.handleCommunicationError(error instanceof Error ? error : new Error(String(error)), {
+      operation,
+      sessionId: this.sessionId,
+    })
+  }
+
+  /**
+   * Push the available models, favourites, recent models and the current choice to the webview
+   * Providers are fetched once per webview load
+   */
+  private async sendModelState(): Promise<void> {
+    if (!this.client || !this.communicationBridge) {
+      return
+    }
+
+    try {
+      if (!this.providers) {
+        this.providers = await this.client.getProviders()
+      }
+      const models = toModelOptions(this.providers)
+      const selected = this.modelPreferences.getSelected()
+      const [defaultProvider, defaultModel] = Object.entries(this.providers.default)[0] ?? []
+
+      this.communicationBridge.sendMessage({
+        type: "model.state",
+        models,
+        favourites: this.modelPreferences.getFavourites(),
+        recent: this.modelPreferences.getRecent(),
+        // A remembered model that the backend no longer offers falls back to the default
+        selected: selected && models.some((m) => sameModel(m, selected)) ? selected : null,
+        defaultModel: defaultProvider ? { providerID: defaultProvider, modelID: defaultModel } : null,
+      })
+    } catch (error) {
+      await this.handleSessionError("loadModels", error)
+    }
+  }
+
+  private async handleModelAction(action: string, model?: ModelRef): Promise<void> {
+    switch (action) {
+      case "select":
+        await this.modelPreferences.setSelected(model)
+        break
+      case "toggleFavourite":
+        if (model) {
+          await this.modelPreferences.toggleFavourite(model)
+        }
+        break
+      default:
+        logger.appendLine(`[WebviewController] Unknown model action: ${action}`)
+        return
+    }
+    await this.sendModelState()
+  }
+
+  private async getSelectableAgents(): Promise<AgentInfo[]> {
+    if (!this.agents && this.client) {
+      this.agents = selectableAgents(await this.client.listAgents())
+    }
+    return this.agents || []
+  }
+
+  /**
+   * Agent prompts are sent to: the last one picked in this workspace, if the backend still has it
+   */
+  private getSelectedAgent(): string | undefined {
+    return resolveAgent(this.context.workspaceState.get<string>(AGENT_KEY), this.agents)
+  }
+
+  private async sendAgentState(): Promise<void> {
+    if (!this.client || !this.communicationBridge) {
+      return
+    }
+
+    try {
+      const agents = await this.getSelectableAgents()
+      this.communicationBridge.sendMessage({
+        type: "agent.state",
+        agents: agents.map((a) => ({ name: a.name, description: a.description })),
+        selected: this.getSelectedAgent() ?? null,
+      })
+    } catch (error) {
+      await this.handleSessionError("loadAgents", error)
+    }
+  }
+
+  /**
+   * Push the display settings the webview renders with
+   */
+  private sendUISettings(): void {
+    const config = vscode.workspace.getConfiguration("opencode")
+    this.communicationBridge?.sendMessage({
+      type: "ui.settings",
+      reasoningDisplay: config.get<"collapsed" | "expanded" | "hidden">("chat.reasoningDisplay", "collapsed"),
+    })
+  }
+
+  private async selectAgent(agent?: string): Promise<void> {
+    await this.context.workspaceState.update(AGENT_KEY, agent || undefined)
+    await this.sendAgentState()
+  }
+
+  /**
+   * Switch to the next agent in the backend's list (command palette)
+   */
+  async cycleAgent(): Promise<void> {
+    try {
+      const next = nextAgent(await this.getSelectableAgents(), this.getSelectedAgent())
+      if (!next) {
+        vscode.window.showInformationMessage("OpenCode: No agents available")
+        return
+      }
+      await this.selectAgent(next.name)
+      vscode.window.setStatusBarMessage(`OpenCode agent: ${next.name}`, 3000)
+    } catch (error) {
+      await this.handleSessionError("cycleAgent", error)
+    }
+  }
+
+  /**
+   * Abort the generation running in the active session
+   * The event stream is left open so the next prompt streams normally
+   */
+  async abort(): Promise<void> {
+    if (!this.client || !this.sessionId) {
+      logger.appendLine("[WebviewController] Nothing to abort: no active session")
+      return
+    }
+    // Stopping while idle must not flag the previous (finished) answer as interrupted
+    if (!this.generating) {
+      logger.appendLine("[WebviewController] Nothing to abort: session is idle")
+      // The webview may still think a run is going (e.g. reloaded mid-run); settle its Stop button
+      this.communicationBridge?.sendMessage({ type: "chat.idle", sessionId: this.sessionId })
+      return
+    }
+
+    try {
+      logger.appendLine(`[WebviewController] Aborting session ${this.sessionId}`)
+      await this.client.abortSession(this.sessionId)
+    } catch (error) {
+      await this.handleSessionError("abort", error)
+    } finally {
+      this.setGenerating(false)
+      this.pendingPermissions.clear()
+      this.communicationBridge?.sendMessage({
+        type: "chat.aborted",
+        sessionId: this.sessionId,
+      })
+      // Re-open the stream if it dropped while the run was being cancelled
+      this.startEventStreamListener()
+    }
+  }
+
+  /**
+   * Show a backend permission request: inline card in the chat, plus a modal for high-risk bash commands
+   */
+  private async handlePermissionRequest(permission: PermissionRequest): Promise<void> {
+    if (!permission?.id || permission.sessionID !== this.sessionId || this.pendingPermissions.has(permission.id)) {
+      return
+    }
+    this.pendingPermissions.set(permission.id, permission)
+
+    this.communicationBridge?.sendMessage({
+      type: "permission.request",
+      sessionId: permission.sessionID,
+      permission: {
+        id: permission.id,
+        type: permission.type,
+        title: permission.title,
+        command: permissionCommand(permission),
+        highRisk: isHighRiskPermission(permission),
+      },
+    })
+
+    const confirmHighRisk = vscode.workspace.getConfiguration("opencode").get<boolean>("permissions.confirmHighRiskCommands", true)
+    // Views showing the same session share one modal
+    if (!confirmHighRisk || !isHighRiskPermission(permission) || WebviewController.permissionModals.has(permission.id)) {
+      return
+    }
+
+    WebviewController.permissionModals.add(permission.id)
+    let choice: string | undefined
+    try {
+      choice = await vscode.window.showWarningMessage(
+        "OpenCode wants to run a potentially destructive command",
+        { modal: true, detail: permissionCommand(permission) },
+        "Allow once",
+        "Always for this session",
+        "Deny",
+      )
+    } finally {
+      WebviewController.permissionModals.delete(permission.id)
+    }
+    // Dismissing the modal leaves the inline card to answer from
+    if (choice && this.pendingPermissions.has(permission.id)) {
+      const response = choice === "Allow once" ? "once" : choice === "Deny" ? "reject" : "always"
+      await this.respondPermission(permission.id, response)
+    }
+  }
+
+  /**
+   * Send the user's answer for a pending permission request to the backend
+   */
+  private async respondPermission(permissionId: string, response: string): Promise<void> {
+    const permission = this.pendingPermissions.get(permissionId)
+    if (!this.client || !permission) {
+      logger.appendLine(`[WebviewController] Unknown permission ${permissionId}, ignoring response`)
+      return
+    }
+    if (response !== "once" && response !== "always" && response !== "reject") {
+      logger.appendLine(`[WebviewController] Invalid permission response: ${response}`)
+      return
+    }
+
+    try {
+      await this.client.respondPermission(permission.sessionID, permissionId, response)
+      this.resolvePermission(permissionId, response)
+    } catch (error) {
+      await this.handleSessionError("respondPermission", error)
+    }
+  }
+
+  private resolvePermission(permissionId: string, response?: string): void {
+    if (!this.pendingPermissions.delete(permissionId)) {
+      return
+    }
+    this.communicationBridge?.sendMessage({
+      type: "permission.resolved",
+      permissionId,
+      response,
+    })
+  }
+
+  private setGenerating(generating: boolean): void {
+    if (this.generating === generating) {
+      return
+    }
+    this.generating = generating
+    vscode.commands.executeCommand("setContext", "opencode.generating", generating).then(undefined, () => {})
   }
 
   private async handleChatSend(text: string, context?: any[], options?: any): Promise<void> {
+    // Kept as sent (same context items and model) so Retry can resend it
+    this.lastPrompt = { text, context, options }
     console.log('[WebviewController] handleChatSend called with:', text.substring(0, 50));
     console.log('[WebviewController] Connection available:', !!this.connection);
     console.log('[WebviewController] Connection details:', this.connection);
@@ -270,91 +948,47 @@ export class WebviewController {
         console.log('[WebviewController] Session created:', this.sessionId);
       }
 
+      if (!(await this.checkBudget())) {
+        return
+      }
+
       const apiUrl = `${baseUrl}/session/${this.sessionId}/prompt_async`
       console.log('[WebviewController] API URL:', apiUrl);
       
       // Build parts array with text and context
       const parts: any[] = [{ type: "text", text }]
       
-      // Add context items if provided
+      // Add context items if provided: as file parts, or inlined for backends that cannot take them
       if (context && context.length > 0) {
-        for (const item of context) {
-          if (item.type === 'file' || item.type === 'code') {
-            // For files and code snippets, we need to read the content
-            try {
-              const resolvedPath = await this.resolveContextPath(item.path)
-              if (!resolvedPath) {
-                logger.appendLine(`[WebviewController] Could not resolve context path: ${item.path}`)
-                parts.push({
-                  type: 'text',
-                  text: `\n\n[Context: ${item.path} - File not accessible]`
-                })
-                continue
-              }
-
-              const fileUri = vscode.Uri.file(resolvedPath)
-              let content = ''
-              
-              // Check if file exists and read it
-              try {
-                await vscode.workspace.fs.stat(fileUri)
-                const bytes = await vscode.workspace.fs.readFile(fileUri)
-                content = Buffer.from(bytes).toString('utf-8')
-                
-                // If line range is specified, extract those lines
-                if (item.lineStart !== undefined) {
-                  const lines = content.split('\n')
-                  const start = Math.max(0, item.lineStart - 1)
-                  const end = item.lineEnd !== undefined ? Math.min(lines.length, item.lineEnd) : start + 1
-                  content = lines.slice(start, end).join('\n')
-                }
-                
-                // Limit content size to avoid overwhelming the context
-                const config = vscode.workspace.getConfiguration("opencode")
-                const maxContentLengthSetting = config.get<number>("context.maxFileChars", 50000)
-                const includeFullContext = options?.includeFullContext === true
-                const maxContentLength = includeFullContext ? 0 : maxContentLengthSetting
-                let displayContent = content
-                if (maxContentLength > 0 && content.length > maxContentLength) {
-                  displayContent = content.substring(0, maxContentLength)
-                  displayContent += `\n\n[... Content truncated, total length: ${content.length} chars ...]`
-                }
-                
-                parts.push({
-                  type: 'text',
-                  text: `\n\n[Context: ${item.path}${item.lineStart ? `:${item.lineStart}${item.lineEnd ? `-${item.lineEnd}` : ''}` : ''}]\n\`\`\`\n${displayContent}\n\`\`\``
-                })
-                
-                logger.appendLine(`[WebviewController] Added file context: ${item.path}`)
-              } catch (err) {
-                logger.appendLine(`[WebviewController] Could not read file ${item.path}: ${err}`)
-                parts.push({
-                  type: 'text',
-                  text: `\n\n[Context: ${item.path} - File not accessible]`
-                })
-              }
-            } catch (err) {
-              logger.appendLine(`[WebviewController] Error processing context item: ${err}`)
-            }
-          } else if (item.type === 'folder') {
-            parts.push({
-              type: 'text',
-              text: `\n\n[Context: Folder ${item.path}]`
-            })
-          }
-        }
+        const fileParts = await this.fileParts
+        parts.push(...(fileParts ? await this.contextFileParts(context, options) : await this.inlineContextParts(context, options)))
+        await this.recordContextSnapshots(context)
       }
       
       console.log('[WebviewController] Sending POST to:', apiUrl);
       console.log('[WebviewController] Parts:', JSON.stringify(parts).substring(0, 200));
       
+      // A per-message override wins over the model picked in the selector
+      const model: ModelRef | undefined = options?.model ?? this.modelPreferences.getSelected()
+      const body: Record<string, unknown> = { parts }
+      const agent = this.getSelectedAgent()
+      if (agent) {
+        body.agent = agent
+      }
+      if (model) {
+        body.model = { providerID: model.providerID, modelID: model.modelID }
+        if (model.variant) {
+          body.variant = model.variant
+        }
+      }
+
       // Send message using the session API
       const response = await fetch(apiUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ parts }),
+        body: JSON.stringify(body),
       })
 
       console.log('[WebviewController] Response status:', response.status, response.statusText);
@@ -365,6 +999,12 @@ export class WebviewController {
 
       // Start listening to SSE events and forward to webview
       this.startEventStreamListener();
+      this.setGenerating(true)
+
+      if (model) {
+        await this.modelPreferences.addRecent(model)
+        await this.sendModelState()
+      }
       
       logger.appendLine(`[WebviewController] Message sent successfully, waiting for response...`);
       
@@ -380,15 +1020,491 @@ export class WebviewController {
       // Show user-facing error
       vscode.window.showErrorMessage(`Failed to send message: ${errorMessage}`);
       
-      if (this.communicationBridge) {
-        this.communicationBridge.sendMessage({
-          type: "error",
-          // @ts-ignore
-          command: "chat.error",
-          text: `Failed to send message: ${errorMessage}`
+      this.reportSessionError(this.sessionId, { category: "request", message: `Failed to send message: ${errorMessage}` })
+    }
+  }
+
+  /**
+   * Resend the last prompt with the context items and model it was first sent with
+   */
+  private async retryLastPrompt(): Promise<void> {
+    if (!this.lastPrompt) {
+      logger.appendLine("[WebviewController] Retry requested but no prompt was sent yet")
+      return
+    }
+    const { text, context, options } = this.lastPrompt
+    await this.handleChatSend(text, context, options)
+  }
+
+  /**
+   * Stop the run and show the failure in the transcript, with Retry when there is a prompt to resend
+   */
+  private reportSessionError(sessionId: string | null, error: SessionError): void {
+    logger.appendLine(`[WebviewController] Session error (${error.category}): ${error.message}`)
+    this.setGenerating(false)
+    this.communicationBridge?.sendMessage({
+      type: "chat.error",
+      sessionId,
+      error: { category: error.category, message: error.message },
+      canRetry: !!this.lastPrompt,
+    })
+  }
+
+  /**
+   * Context items as file parts; the backend reads the files (and ranges) itself
+   */
+  private async contextFileParts(context: ContextItem[], options?: any): Promise<any[]> {
+    const parts: any[] = []
+    for (const item of context) {
+      if (item.content) {
+        parts.push(this.contentContextPart(item))
+        continue
+      }
+      const resolvedPath = await this.resolveContextPath(item.path)
+      if (!resolvedPath) {
+        logger.appendLine(`[WebviewController] Could not resolve context path: ${item.path}`)
+        parts.push({ type: "text", text: `\n\n[Context: ${item.path} - File not accessible]` })
+        continue
+      }
+      if (item.type !== "folder" && this.findOpenDocument(resolvedPath)?.isDirty) {
+        // The backend would read the stale disk copy, so unsaved buffers go inline
+        parts.push(await this.inlineFileTextPart(item, resolvedPath, options))
+        logger.appendLine(`[WebviewController] Added unsaved buffer context: ${item.path}`)
+        continue
+      }
+      // The backend lists a directory part itself; an inlined tree as well would give the model the folder twice
+      parts.push(toFilePart(item, resolvedPath))
+      logger.appendLine(`[WebviewController] Added file part: ${item.path}`)
+    }
+    return parts
+  }
+
+  /**
+   * Remember the files sent with a message so its answer can later be merged with edits made meanwhile
+   */
+  private async recordContextSnapshots(context: ContextItem[]): Promise<void> {
+    const sentAt = Date.now()
+    for (const item of context) {
+      if (item.content || (item.type !== "file" && item.type !== "code")) {
+        continue
+      }
+      const resolvedPath = await this.resolveContextPath(item.path)
+      const content = resolvedPath ? await readCurrentText(vscode.Uri.file(resolvedPath)) : undefined
+      if (resolvedPath && content !== undefined) {
+        contextSnapshots.record(resolvedPath, content, sentAt)
+      }
+    }
+  }
+
+  /**
+   * Fallback for backends without file parts: read each item and inline it as text
+   */
+  private async inlineContextParts(context: any[], options?: any): Promise<any[]> {
+    const parts: any[] = []
+    for (const item of context) {
+      if (item.content) {
+        parts.push(this.contentContextPart(item))
+      } else if (item.type === 'file' || item.type === 'code') {
+        // For files and code snippets, we need to read the content
+        try {
+          const resolvedPath = await this.resolveContextPath(item.path)
+          if (!resolvedPath) {
+            logger.appendLine(`[WebviewController] Could not resolve context path: ${item.path}`)
+            parts.push({
+              type: 'text',
+              text: `\n\n[Context: ${item.path} - File not accessible]`
+            })
+            continue
+          }
+
+          // Check if file exists and read it
+          try {
+            parts.push(await this.inlineFileTextPart(item, resolvedPath, options))
+            
+            logger.appendLine(`[WebviewController] Added file context: ${item.path}`)
+          } catch (err) {
+            logger.appendLine(`[WebviewController] Could not read file ${item.path}: ${err}`)
+            parts.push({
+              type: 'text',
+              text: `\n\n[Context: ${item.path} - File not accessible]`
+            })
+          }
+        } catch (err) {
+          logger.appendLine(`[WebviewController] Error processing context item: ${err}`)
+        }
+      } else if (item.type === 'folder') {
+        const resolvedPath = await this.resolveContextPath(item.path)
+        parts.push({
+          type: 'text',
+          text: resolvedPath
+            ? formatFolderContext(item.path, await this.buildFolderContext(resolvedPath))
+            : `\n\n[Context: Folder ${item.path} - Folder not accessible]`
         })
       }
     }
+    return parts
+  }
+
+  /**
+   * Text of a file context item (its line range only, if it has one)
+   * An open editor wins over the disk copy, since it may hold unsaved edits
+   */
+  private async readContextText(resolvedPath: string, item: ContextItem): Promise<string> {
+    const document = this.findOpenDocument(resolvedPath)
+    const text = document
+      ? document.getText()
+      : Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(resolvedPath))).toString("utf-8")
+    return sliceLines(text, item.lineStart, item.lineEnd)
+  }
+
+  private findOpenDocument(resolvedPath: string): vscode.TextDocument | undefined {
+    const target = path.normalize(resolvedPath)
+    return vscode.workspace.textDocuments.find((d) => d.uri.scheme === "file" && path.normalize(d.uri.fsPath) === target)
+  }
+
+  /**
+   * A file item inlined as text (its range only), cut to maxFileChars
+   */
+  private async inlineFileTextPart(item: ContextItem, resolvedPath: string, options?: any): Promise<{ type: "text"; text: string }> {
+    // Limit content size to avoid overwhelming the context
+    const { text } = truncateContent(await this.readContextText(resolvedPath, item), this.maxContextChars(options))
+    return { type: "text", text: inlineContextText(item, text, !!this.findOpenDocument(resolvedPath)?.isDirty) }
+  }
+
+  /**
+   * context.maxFileChars, unless the webview asked for full context (0 = no limit)
+   */
+  private maxContextChars(options?: any): number {
+    if (options?.includeFullContext === true) {
+      return 0
+    }
+    return vscode.workspace.getConfiguration("opencode").get<number>("context.maxFileChars", 50000)
+  }
+
+  /**
+   * An item whose text was already reduced (e.g. summarized to an outline) goes as that text
+   */
+  private contentContextPart(item: ContextItem): { type: "text"; text: string } {
+    return { type: "text", text: `\n\n[Context: ${item.path} (summary)]\n\`\`\`\n${item.content}\n\`\`\`` }
+  }
+
+  /**
+   * Estimate what each context item costs in tokens, as it would be sent right now
+   */
+  private async estimateContext(items: Array<ContextItem & { id: string }>, options?: any): Promise<void> {
+    this.lastEstimate = items.length > 0 ? { items, options } : undefined
+    const fileParts = await this.fileParts
+    const estimates: Record<string, ContextEstimate> = {}
+    for (const item of items) {
+      try {
+        let chars = 0
+        let truncated = false
+        let unsaved = false
+        if (item.content) {
+          chars = item.content.length
+        } else {
+          const resolvedPath = await this.resolveContextPath(item.path)
+          if (!resolvedPath) {
+            continue
+          }
+          if (item.type === "folder") {
+            chars = formatFolderContext(item.path, await this.buildFolderContext(resolvedPath)).length
+          } else {
+            const text = await this.readContextText(resolvedPath, item)
+            unsaved = !!this.findOpenDocument(resolvedPath)?.isDirty
+            // File parts are read whole by the backend; only inlined text (incl. unsaved buffers) is cut to maxFileChars
+            const sent = fileParts && !unsaved ? { text, truncated: false } : truncateContent(text, this.maxContextChars(options))
+            chars = sent.text.length
+            truncated = sent.truncated
+          }
+        }
+        estimates[item.id] = { tokens: estimateTokens(chars), chars, truncated, unsaved }
+      } catch (error) {
+        logger.appendLine(`[WebviewController] Could not estimate context item ${item.path}: ${error}`)
+      }
+    }
+    this.communicationBridge?.sendMessage({ type: "context.estimates", estimates })
+  }
+
+  /**
+   * Re-estimate the context shortly after an attached file is edited or saved
+   */
+  private scheduleContextEstimate(document: vscode.TextDocument): void {
+    if (!this.lastEstimate || document.uri.scheme !== "file") {
+      return
+    }
+    const name = path.basename(document.uri.fsPath)
+    if (!this.lastEstimate.items.some((item) => path.basename(item.path) === name)) {
+      return
+    }
+    if (this.estimateTimer) {
+      clearTimeout(this.estimateTimer)
+    }
+    this.estimateTimer = setTimeout(() => {
+      this.estimateTimer = undefined
+      if (this.lastEstimate) {
+        this.estimateContext(this.lastEstimate.items, this.lastEstimate.options).catch((err) =>
+          logger.appendLine(`[WebviewController] Context estimate failed: ${err}`),
+        )
+      }
+    }, 500)
+  }
+
+  /**
+   * Shrink a context item: keep a line range, or replace the file with its symbol outline
+   */
+  private async reduceContextItem(item: ContextItem & { id: string }, action: string): Promise<void> {
+    const resolvedPath = await this.resolveContextPath(item.path)
+    if (!resolvedPath) {
+      vscode.window.showWarningMessage(`OpenCode: ${item.path} is not accessible`)
+      return
+    }
+
+    if (action === "trim") {
+      const input = await vscode.window.showInputBox({
+        title: `Trim ${path.basename(resolvedPath)}`,
+        prompt: "Line range to keep",
+        placeHolder: "e.g. 10-80",
+        value: item.lineStart !== undefined ? `${item.lineStart}-${item.lineEnd ?? item.lineStart}` : "",
+        validateInput: (value) => (parseLineRange(value) ? undefined : "Enter a range like 10-80"),
+      })
+      const range = input !== undefined ? parseLineRange(input) : undefined
+      if (!range) {
+        return
+      }
+      this.communicationBridge?.sendMessage({
+        type: "context.itemUpdate",
+        id: item.id,
+        changes: { type: "code", ...range },
+      })
+    } else if (action === "summarize") {
+      const outline = await this.outlineFile(resolvedPath, item)
+      this.communicationBridge?.sendMessage({
+        type: "context.itemUpdate",
+        id: item.id,
+        changes: { content: outline },
+      })
+    }
+  }
+
+  /**
+   * Symbol outline of a file (kind, name and lines); falls back to the first lines when no symbol provider answers
+   */
+  private async outlineFile(resolvedPath: string, item: ContextItem): Promise<string> {
+    const uri = vscode.Uri.file(resolvedPath)
+    const symbols = await vscode.commands
+      .executeCommand<vscode.DocumentSymbol[]>("vscode.executeDocumentSymbolProvider", uri)
+      .then(undefined, () => undefined)
+
+    if (symbols && symbols.length > 0) {
+      const lines: string[] = []
+      const visit = (list: vscode.DocumentSymbol[], depth: number) => {
+        for (const symbol of list) {
+          const start = symbol.range.start.line + 1
+          const end = symbol.range.end.line + 1
+          if (item.lineStart !== undefined && (end < item.lineStart || start > (item.lineEnd ?? item.lineStart))) {
+            continue
+          }
+          lines.push(`${"  ".repeat(depth)}${vscode.SymbolKind[symbol.kind].toLowerCase()} ${symbol.name} (lines ${start}-${end})`)
+          visit(symbol.children || [], depth + 1)
+        }
+      }
+      visit(symbols, 0)
+      return `Outline of ${item.path}:\n${lines.join("\n")}`
+    }
+
+    const head = (await this.readContextText(resolvedPath, item)).split("\n").slice(0, 50).join("\n")
+    return `First lines of ${item.path}:\n${head}\n...`
+  }
+
+  /**
+   * Answer an @-mention query: files and folders by fuzzy path match, or workspace symbols for "@#"
+   */
+  private async searchMentions(query: string, kind: string, requestId: number): Promise<void> {
+    let results: MentionResult[] = []
+    try {
+      if (kind === "symbol") {
+        const symbols =
+          (await vscode.commands.executeCommand<vscode.SymbolInformation[]>("vscode.executeWorkspaceSymbolProvider", query)) || []
+        results = rankMatches(query, symbols, (s) => s.name).map((s) => ({
+          type: "code",
+          path: s.location.uri.fsPath,
+          name: s.name,
+          detail: `${vscode.SymbolKind[s.kind].toLowerCase()} · ${vscode.workspace.asRelativePath(s.location.uri)}`,
+          lineStart: s.location.range.start.line + 1,
+          lineEnd: s.location.range.end.line + 1,
+        }))
+      } else {
+        // findFiles honours files.exclude; the list is cached for a few seconds between keystrokes
+        if (!this.mentionFiles || Date.now() - this.mentionFiles.at > 10000) {
+          this.mentionFiles = { at: Date.now(), uris: await vscode.workspace.findFiles("**/*", undefined, 5000) }
+        }
+        const files = this.mentionFiles.uris.map((uri) => ({ uri, rel: vscode.workspace.asRelativePath(uri, false).replace(/\\/g, "/") }))
+        // Folders come from the files' parents (relative path -> absolute path)
+        const folders = new Map<string, string>()
+        for (const file of files) {
+          let rel = path.posix.dirname(file.rel)
+          let abs = path.dirname(file.uri.fsPath)
+          while (rel !== "." && !folders.has(rel)) {
+            folders.set(rel, abs)
+            rel = path.posix.dirname(rel)
+            abs = path.dirname(abs)
+          }
+        }
+        results = rankMatches(query, [
+          ...files.map((f): MentionResult => ({ type: "file", path: f.uri.fsPath, name: path.basename(f.rel), detail: f.rel })),
+          ...[...folders].map(([rel, abs]): MentionResult => ({ type: "folder", path: abs, name: path.posix.basename(rel), detail: `${rel}/` })),
+        ], (r) => r.detail || r.name)
+      }
+    } catch (error) {
+      logger.appendLine(`[WebviewController] Mention search failed: ${error}`)
+    }
+    this.communicationBridge?.sendMessage({ type: "mention.results", requestId, results })
+  }
+
+  /**
+   * Workspace symbol locations often cover only the name; widen a mentioned symbol to its full range
+   */
+  private async resolveMentionedSymbol(item: ContextItem & { id: string }): Promise<void> {
+    try {
+      const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+        "vscode.executeDocumentSymbolProvider",
+        vscode.Uri.file(item.path),
+      )
+      const line = (item.lineStart ?? 1) - 1
+      const find = (list: vscode.DocumentSymbol[]): vscode.DocumentSymbol | undefined => {
+        for (const symbol of list) {
+          if (symbol.name === item.name && symbol.selectionRange.start.line <= line && symbol.range.end.line >= line) {
+            return symbol
+          }
+          const child = find(symbol.children || [])
+          if (child) {
+            return child
+          }
+        }
+        return undefined
+      }
+      const symbol = find(symbols || [])
+      if (symbol) {
+        this.communicationBridge?.sendMessage({
+          type: "context.itemUpdate",
+          id: item.id,
+          changes: { lineStart: symbol.range.start.line + 1, lineEnd: symbol.range.end.line + 1 },
+        })
+      }
+    } catch (error) {
+      logger.appendLine(`[WebviewController] Could not resolve symbol ${item.name}: ${error}`)
+    }
+  }
+
+  /**
+   * Pinned items of the active session, kept in workspaceState with the context sets so they survive reloads
+   */
+  private async savePinnedContext(items: ContextSetItem[]): Promise<void> {
+    if (!this.sessionId) {
+      return
+    }
+    await this.contextSets.savePinned(this.sessionId, items)
+  }
+
+  private async sendPinnedContext(): Promise<void> {
+    if (!this.sessionId) {
+      return
+    }
+    this.communicationBridge?.sendMessage({
+      type: "context.pinned",
+      items: this.contextSets.pinned(this.sessionId),
+    })
+  }
+
+  /**
+   * Quick pick to save the pinned items as a named set, attach a saved set, or delete one
+   * @param pinned Items currently pinned in the webview
+   */
+  private async showContextSets(pinned: ContextSetItem[]): Promise<void> {
+    type SetPick = vscode.QuickPickItem & { action: "save" | "load" | "delete"; name?: string }
+    const sets = this.contextSets.list()
+    const picks: SetPick[] = [
+      ...(pinned.length > 0 ? [{ label: "$(save) Save pinned items as a set...", action: "save" as const }] : []),
+      ...sets.map((set) => ({
+        label: `$(pinned) ${set.name}`,
+        description: `${set.items.length} item${set.items.length === 1 ? "" : "s"}`,
+        detail: set.items.map((i) => i.name).join(", "),
+        action: "load" as const,
+        name: set.name,
+      })),
+      ...(sets.length > 0 ? [{ label: "$(trash) Delete a set...", action: "delete" as const }] : []),
+    ]
+    if (picks.length === 0) {
+      vscode.window.showInformationMessage("OpenCode: Pin context items first to save them as a set")
+      return
+    }
+
+    const picked = await vscode.window.showQuickPick(picks, { placeHolder: "Context sets" })
+    if (!picked) {
+      return
+    }
+
+    if (picked.action === "save") {
+      const name = await vscode.window.showInputBox({
+        prompt: "Name for this context set",
+        validateInput: (value) => (value.trim() ? undefined : "Enter a name"),
+      })
+      if (name?.trim()) {
+        await this.contextSets.save(name.trim(), pinned)
+      }
+    } else if (picked.action === "load" && picked.name) {
+      const set = this.contextSets.get(picked.name)
+      if (set) {
+        this.communicationBridge?.sendMessage({ type: "context.applySet", name: set.name, items: set.items })
+      }
+    } else if (picked.action === "delete") {
+      const target = await vscode.window.showQuickPick(
+        sets.map((set) => set.name),
+        { placeHolder: "Context set to delete" },
+      )
+      if (target) {
+        await this.contextSets.delete(target)
+      }
+    }
+  }
+
+  /**
+   * Tree listing (and small file contents, if enabled) of a context folder, within the configured caps
+   */
+  private async buildFolderContext(folderPath: string): Promise<FolderContext> {
+    const config = vscode.workspace.getConfiguration("opencode")
+    const filesExclude = vscode.workspace.getConfiguration("files").get<Record<string, unknown>>("exclude", {})
+    const options: FolderContextOptions = {
+      workspaceRoot: vscode.workspace.getWorkspaceFolder(vscode.Uri.file(folderPath))?.uri.fsPath,
+      // files.exclude entries can be conditional ({when: ...}); only the plain ones apply here
+      exclude: [
+        ...Object.keys(filesExclude).filter((glob) => filesExclude[glob] === true),
+        ...config.get<string[]>("context.exclude", []),
+      ],
+      maxDepth: config.get<number>("context.folderMaxDepth", 4),
+      maxEntries: config.get<number>("context.folderMaxEntries", 300),
+      includeContents: config.get<boolean>("context.folderIncludeContents", false),
+      smallFileChars: config.get<number>("context.folderSmallFileChars", 4000),
+      contentBudget: config.get<number>("context.folderContentBudget", 20000),
+    }
+    return buildFolderContext(folderPath, options)
+  }
+
+  /**
+   * Tell the webview what a folder chip will carry (entry count, inlined files, truncation)
+   */
+  private async describeFolder(id: string, folderPath: string): Promise<void> {
+    try {
+      const resolvedPath = await this.resolveContextPath(folderPath)
+      if (!resolvedPath) {
+        return
+      }
+      const { summary } = await this.buildFolderContext(resolvedPath)
+      this.communicationBridge?.sendMessage({ type: "context.folderSummary", id, summary })
+    } catch (error) {
+      logger.appendLine(`[WebviewController] Could not describe folder ${folderPath}: ${error}`)
+    }
   }
 
   private async resolveContextPath(rawPath: string | undefined): Promise<string | null> {
@@ -473,85 +1589,78 @@ export class WebviewController {
     }
   }
 
-  private eventStreamRequest?: http.ClientRequest
+  private eventHub?: EventHub
+  private eventSubscription?: EventSubscription
 
+  /**
+   * Subscribe to the shared event hub of this backend (or reopen it if it went offline)
+   * The stream reconnects on its own; after a reconnect the active session is resynced
+   */
   private startEventStreamListener(): void {
-    if (this.eventStreamRequest) {
+    if (!this.connection) {
+      logger.appendLine('[WebviewController] No connection available for event stream');
       return;
     }
 
-    if (!this.connection) {
-      logger.appendLine('[WebviewController] No connection available for event stream');
+    if (this.eventHub) {
+      this.eventHub.ensureConnected();
       return;
     }
 
-    const uiBaseUrl = new URL(this.connection.uiBase);
-    const eventUrl = `${uiBaseUrl.origin}/event`;
-    
-    console.log('[WebviewController] Connecting to event stream:', eventUrl);
-    logger.appendLine(`[WebviewController] Connecting to event stream: ${eventUrl}`);
-    
-    try {
-      this.eventStreamRequest = http.get(eventUrl, (res) => {
-        console.log('[WebviewController] Event stream response status:', res.statusCode);
-        logger.appendLine(`[WebviewController] Event stream connected (status: ${res.statusCode})`);
-        
-        if (res.statusCode !== 200) {
-            vscode.window.showErrorMessage(`Failed to connect to OpenCode event stream (Status: ${res.statusCode})`);
-            return;
-        }
+    this.eventHub = EventHub.forBackend(new URL(this.connection.uiBase).origin);
+    this.eventSubscription = this.eventHub.subscribe({
+      getSessionId: () => this.sessionId,
+      onEvent: (event) => this.handleServerEvent(event),
+      // The backend may be shared (another panel or the CLI): other sessions only raise a badge
+      onForeignEvent: (sessionId, event) => this.noteBackgroundActivity(sessionId, event.type),
+      onStateChange: (state, retryInMs) => this.sendStreamState(state, retryInMs),
+      onReconnect: () => {
+        this.resyncActiveSession().catch((err) =>
+          logger.appendLine(`[WebviewController] Resync after reconnect failed: ${err}`)
+        );
+      },
+    });
+  }
 
-        console.log('[WebviewController] Event stream connected, listening for events...');
-        let buffer = '';
-        
-        res.on('data', (chunk) => {
-          const chunkStr = chunk.toString();
-          console.log('[WebviewController] Event stream data chunk:', chunkStr.substring(0, 200));
-          buffer += chunkStr;
-          const lines = buffer.split('\n');
-          // Keep the last partial line in the buffer
-          buffer = lines.pop() || '';
-          
-          for (const line of lines) {
-            if (line.trim().startsWith('data: ')) {
-              const data = line.trim().slice(6);
-              console.log('[WebviewController] Event data:', data);
-              // Skip keep-alive messages or empty data
-              if (!data || data === '{}') continue;
-              
-              try {
-                const eventData = JSON.parse(data);
-                console.log('[WebviewController] Parsed event:', JSON.stringify(eventData).substring(0, 200));
-                this.handleServerEvent(eventData);
-              } catch (err) {
-                logger.appendLine(`[WebviewController] Error parsing event: ${err}`);
-              }
-            }
-          }
-        });
-
-        res.on('end', () => {
-          console.log('[WebviewController] Event stream ended');
-          logger.appendLine('[WebviewController] Event stream ended by server');
-          this.eventStreamRequest = undefined;
-        });
-      });
-
-      this.eventStreamRequest.on('error', (err) => {
-        console.log('[WebviewController] Event stream error:', err.message);
-        logger.appendLine(`[WebviewController] Event stream error: ${err.message}`);
-        vscode.window.showErrorMessage(`OpenCode event stream error: ${err.message}`);
-        this.eventStreamRequest = undefined;
-      });
-      
-    } catch (err) {
-      const msg = `Failed to create event stream request: ${err}`;
-      logger.appendLine(`[WebviewController] ${msg}`);
-      vscode.window.showErrorMessage(msg);
+  private sendStreamState(state: EventStreamState, retryInMs?: number): void {
+    this.communicationBridge?.sendMessage({
+      type: "connection.stream",
+      state,
+      retryInMs,
+    })
+  }
+
+  /**
+   * Reload the active session after the stream was down, so events missed meanwhile are not lost
+   */
+  private async resyncActiveSession(): Promise<void> {
+    const sessionId = this.sessionId
+    if (!this.client || !sessionId) {
+      return
+    }
+    logger.appendLine(`[WebviewController] Resyncing session ${sessionId}`)
+
+    this.historySessionId = null
+    const entries = await this.sendHistory(sessionId, true)
+    if (!entries) {
+      return
+    }
+
+    const last = entries[entries.length - 1]?.info
+    if (last?.role === "assistant" && !last.time?.completed) {
+      // Still streaming: show it with its parts so further deltas land on it
+      const message = this.messageStore.getMessage(last.id)
+      if (message) {
+        this.forwardMessage(message)
+      }
+    } else if (this.generating) {
+      // The run finished while we were disconnected
+      this.setGenerating(false)
+      this.communicationBridge?.sendMessage({ type: "chat.idle", sessionId })
     }
   }
 
-  private handleServerEvent(event: any): void {
+  private handleServerEvent(event: ServerEvent): void {
     if (!this.communicationBridge) {
       return;
     }
@@ -583,31 +1692,121 @@ export class WebviewController {
         break;
 
       // Handle OpenCode native streaming events
-      case 'message.part.updated':
-        // Check for text content in the part update
+      case 'message.part.updated': {
         const part = event.properties?.part;
-        const delta = event.properties?.delta;
-        
+        if (!part?.id || !part?.messageID) {
+          break;
+        }
         // delta can be a string directly OR an object with text property
-        const textContent = (typeof delta === 'string' ? delta : delta?.text) || part?.text || (typeof part === 'string' ? part : null);
+        const delta = event.properties?.delta;
+        const message = this.messageStore.updatePart(part, typeof delta === 'string' ? delta : delta?.text);
+        this.forwardMessage(message);
+        break;
+      }
 
-        if (textContent) {
-          this.communicationBridge.sendMessage({
-            type: 'chat.streaming',
-            text: textContent
-          });
+      case 'message.updated': {
+        const info = event.properties?.info;
+        if (info?.id) {
+          this.forwardMessage(this.messageStore.updateMessage(info));
+          if (info.role === 'assistant' && info.tokens) {
+            this.sendSessionUsage();
+          }
+        }
+        break;
+      }
+
+      case 'permission.updated':
+        this.handlePermissionRequest(event.properties as PermissionRequest).catch((err) =>
+          logger.appendLine(`[WebviewController] Permission prompt failed: ${err}`)
+        );
+        break;
+
+      case 'permission.replied':
+        // Also fires when the request was answered elsewhere (TUI, another panel)
+        if (event.properties?.permissionID) {
+          this.resolvePermission(event.properties.permissionID, event.properties.response);
         }
         break;
 
-      case 'message.updated':
-        // Metadata update, ignore
+      case 'session.idle':
+        if (event.properties?.sessionID === this.sessionId) {
+          this.markIdle();
+        }
         break;
+
+      case 'session.status':
+        // Newer backends report busy/retry/idle here instead of (or as well as) session.idle
+        if (event.properties?.sessionID === this.sessionId && event.properties?.status?.type === 'idle') {
+          this.markIdle();
+        }
+        break;
+
+      case 'session.error': {
+        // Errors without a session ID (e.g. provider setup) are shown while this view is generating
+        const sessionId = event.properties?.sessionID;
+        if (sessionId ? sessionId !== this.sessionId : !this.generating) {
+          break;
+        }
+        const error = describeSessionError(event.properties?.error);
+        // A cancelled run is reported by abort() already
+        if (error.category !== 'aborted') {
+          this.reportSessionError(this.sessionId, error);
+        }
+        break;
+      }
         
       default:
         // Ignore other events
     }
   }
 
+  private markIdle(): void {
+    this.setGenerating(false)
+    this.communicationBridge?.sendMessage({ type: "chat.idle", sessionId: this.sessionId })
+  }
+
+  /**
+   * Track sessions other than the active one that are generating (busy until session.idle or opened)
+   */
+  private noteBackgroundActivity(sessionId: string, eventType: string): void {
+    if (eventType === "session.idle") {
+      if (!this.backgroundSessions.delete(sessionId)) {
+        return
+      }
+    } else if (eventType.startsWith("message.") && !this.backgroundSessions.has(sessionId)) {
+      this.backgroundSessions.add(sessionId)
+      logger.appendLine(`[WebviewController] Background activity in session ${sessionId}`)
+    } else {
+      return
+    }
+    this.communicationBridge?.sendMessage({
+      type: "session.activity",
+      sessionIds: [...this.backgroundSessions],
+    })
+  }
+
+  /**
+   * Send the assembled state of an assistant message to the webview
+   * Parts that arrive before message.updated are held until the role is known
+   */
+  private forwardMessage(message: StoredMessage): void {
+    if (message.role !== "assistant" || message.parts.length === 0) {
+      return
+    }
+    this.communicationBridge?.sendMessage({
+      type: "chat.message",
+      sessionId: message.sessionID,
+      message: {
+        id: message.id,
+        role: "assistant",
+        created: message.time?.created ?? Date.now(),
+        completed: message.time?.completed,
+        parts: message.parts,
+        usage: messageUsage(message.info),
+      },
+    })
+  }
+
   private async handleReadUris(uris: string[]): Promise<void> {
     try {
       logger.appendLine(`Reading ${uris.length} URIs from webview request`)
@@ -777,6 +1976,16 @@ export class WebviewController {
   }
 
   dispose(): void {
+    if (this.communicationBridge) {
+      WebviewController.controllers.delete(this.communicationBridge)
+    }
+    if (this.estimateTimer) {
+      clearTimeout(this.estimateTimer)
+    }
+    this.setGenerating(false)
+    this.eventSubscription?.dispose()
+    this.eventSubscription = undefined
+    this.eventHub = undefined
     try {
       this.fileMonitor?.stopMonitoring()
     } catch {}
@@ -797,5 +2006,6 @@ export class WebviewController {
     this.communicationBridge = undefined
     this.fileMonitor = undefined
     this.connection = undefined
+    this.client = undefined
   }
 }
@@ -0,0 +1,141 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import { logger } from "../globals"
+import type { FileChange } from "./FileChanges"
+
+/**
+ * Applies proposed file changes through one WorkspaceEdit so they land in the editors' undo stacks
+ * Batches touching several files go through the refactor preview first
+ * The last batch is remembered for "Undo Last OpenCode Apply"
+ */
+
+interface AppliedFile {
+  uri: vscode.Uri
+  /** undefined: the file did not exist */
+  before: string | undefined
+  /** undefined: the file was deleted */
+  after: string | undefined
+}
+
+/**
+ * Current text of a file: the open editor buffer (including unsaved edits) or the file on disk
+ * @returns undefined when the file does not exist
+ */
+export async function readCurrentText(uri: vscode.Uri): Promise<string | undefined> {
+  const openDocument = vscode.workspace.textDocuments.find(
+    (d) => d.uri.scheme === "file" && path.normalize(d.uri.fsPath) === path.normalize(uri.fsPath),
+  )
+  if (openDocument) {
+    return openDocument.getText()
+  }
+  try {
+    const bytes = await vscode.workspace.fs.readFile(uri)
+    return Buffer.from(bytes).toString("utf-8")
+  } catch {
+    return undefined
+  }
+}
+
+class WorkspaceApply {
+  private lastApply?: { label: string; files: AppliedFile[] }
+
+  /**
+   * Apply a batch of changes as one edit
+   * @param label Shown in the refactor preview and the undo prompt
+   * @param options.save false leaves the edited buffers unsaved (e.g. text with conflict markers)
+   * @returns true when the edit was applied (false if the preview was cancelled)
+   */
+  async apply(changes: FileChange[], label: string, options: { save?: boolean } = {}): Promise<boolean> {
+    const files = await Promise.all(
+      changes.map(async (change): Promise<AppliedFile> => {
+        const uri = vscode.Uri.file(change.filePath)
+        return { uri, before: await readCurrentText(uri), after: change.action === "delete" ? undefined : (change.content ?? "") }
+      }),
+    )
+
+    const edit = await this.buildEdit(files, label, changes.length > 1)
+    // Buffers that were clean are saved again so disk matches, as a direct write would
+    const clean = new Set(files.filter((f) => !this.findDocument(f.uri)?.isDirty).map((f) => f.uri.toString()))
+
+    const applied = await vscode.workspace.applyEdit(edit)
+    if (!applied) {
+      logger.appendLine(`[WorkspaceApply] Edit not applied (cancelled or failed): ${label}`)
+      return false
+    }
+    if (options.save !== false) {
+      await this.saveDocuments(files.filter((f) => f.after !== undefined && clean.has(f.uri.toString())))
+    }
+
+    this.lastApply = { label, files }
+    logger.appendLine(`[WorkspaceApply] Applied ${files.length} file change(s): ${label}`)
+    return true
+  }
+
+  /**
+   * Revert the last applied batch, asking first if any of its files changed since
+   */
+  async undoLast(): Promise<void> {
+    const last = this.lastApply
+    if (!last) {
+      vscode.window.showInformationMessage("No OpenCode apply to undo.")
+      return
+    }
+
+    const changed: string[] = []
+    for (const file of last.files) {
+      if ((await readCurrentText(file.uri)) !== file.after) {
+        changed.push(path.basename(file.uri.fsPath))
+      }
+    }
+    if (changed.length > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `${changed.join(", ")} changed after the OpenCode apply.`,
+        { modal: true, detail: "Undoing restores the contents from before the apply and drops those later edits." },
+        "Undo Anyway",
+      )
+      if (choice !== "Undo Anyway") {
+        return
+      }
+    }
+
+    const reverse = last.files.map((file) => ({ uri: file.uri, before: file.after, after: file.before }))
+    const edit = await this.buildEdit(reverse, `Undo ${last.label}`, false)
+    if (await vscode.workspace.applyEdit(edit)) {
+      await this.saveDocuments(reverse.filter((f) => f.after !== undefined))
+      this.lastApply = undefined
+      logger.appendLine(`[WorkspaceApply] Undid: ${last.label}`)
+      vscode.window.showInformationMessage(`Undid OpenCode apply: ${last.label}`)
+    }
+  }
+
+  private async buildEdit(files: AppliedFile[], label: string, needsConfirmation: boolean): Promise<vscode.WorkspaceEdit> {
+    const edit = new vscode.WorkspaceEdit()
+    const metadata: vscode.WorkspaceEditEntryMetadata = { label, needsConfirmation }
+    for (const file of files) {
+      if (file.after === undefined) {
+        edit.deleteFile(file.uri, { ignoreIfNotExists: true }, metadata)
+      } else if (file.before === undefined) {
+        edit.createFile(file.uri, { ignoreIfExists: true }, metadata)
+        edit.insert(file.uri, new vscode.Position(0, 0), file.after, metadata)
+      } else {
+        const document = await vscode.workspace.openTextDocument(file.uri)
+        const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+        edit.replace(file.uri, fullRange, file.after, metadata)
+      }
+    }
+    return edit
+  }
+
+  private findDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+  }
+
+  private async saveDocuments(files: AppliedFile[]): Promise<void> {
+    for (const file of files) {
+      await this.findDocument(file.uri)?.save()
+    }
+  }
+}
+
+// Singleton instance
+export const workspaceApply = new WorkspaceApply()
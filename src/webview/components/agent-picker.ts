@@ -0,0 +1,70 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+export interface AgentOption {
+    name: string;
+    description?: string;
+}
+
+@customElement('agent-picker')
+export class AgentPicker extends LitElement {
+    @property({ type: Array })
+    agents: AgentOption[] = [];
+
+    // Selected agent name; null means the backend default
+    @property({ type: String })
+    selected: string | null = null;
+
+    static styles = css`
+        :host {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.3rem;
+            min-width: 0;
+            font-size: 0.75rem;
+        }
+
+        select {
+            padding: 0.15rem 0.3rem;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 4px;
+            font-size: 0.75rem;
+        }
+
+        .description {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            max-width: 200px;
+            color: var(--vscode-descriptionForeground);
+        }
+    `;
+
+    render() {
+        if (this.agents.length === 0) return null;
+        const current = this.agents.find(a => a.name === this.selected);
+
+        return html`
+            <select title="Agent (OpenCode: Cycle Agent)" @change="${this.handleChange}">
+                <option value="" ?selected="${!current}">🤖 default agent</option>
+                ${this.agents.map(agent => html`
+                    <option value="${agent.name}" title="${agent.description || ''}" ?selected="${agent.name === current?.name}">
+                        🤖 ${agent.name}
+                    </option>
+                `)}
+            </select>
+            ${current?.description ? html`<span class="description" title="${current.description}">${current.description}</span>` : ''}
+        `;
+    }
+
+    private handleChange(e: Event) {
+        const agent = (e.target as HTMLSelectElement).value || null;
+        this.dispatchEvent(new CustomEvent('agent-select', {
+            detail: { agent },
+            bubbles: true,
+            composed: true
+        }));
+    }
+}
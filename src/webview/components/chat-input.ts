@@ -4,6 +4,23 @@ import { provideVSCodeDesignSystem, vsCodeButton, vsCodeTextArea } from '@vscode
 
 provideVSCodeDesignSystem().register(vsCodeButton(), vsCodeTextArea());
 
+export interface MentionOption {
+    type: 'file' | 'folder' | 'code';
+    path: string;
+    name: string;
+    detail?: string;
+    lineStart?: number;
+    lineEnd?: number;
+}
+
+// The toolkit text area keeps the native textarea as its control
+interface ToolkitTextArea extends HTMLElement {
+    control?: HTMLTextAreaElement;
+}
+
+// "@query" (files and folders) or "@#query" (symbols) right before the caret
+const MENTION_PATTERN = /(?:^|\s)@(#?)([^\s@]*)$/;
+
 @customElement('chat-input')
 export class ChatInput extends LitElement {
     @property({ type: String })
@@ -12,15 +29,73 @@ export class ChatInput extends LitElement {
     @property({ type: Number })
     contextCount = 0;
 
+    @property({ type: Boolean })
+    generating = false;
+
     @state()
     private inputValue = '';
 
     @state()
     private isDragOver = false;
 
+    // Search results for the mention being typed, from the extension
+    @property({ type: Array })
+    mentionResults: MentionOption[] = [];
+
+    @state()
+    private mention: { start: number; kind: 'file' | 'symbol'; query: string } | null = null;
+
+    @state()
+    private mentionIndex = 0;
+
+    private mentionTimer?: number;
+
     static styles = css`
         :host {
             display: block;
+            position: relative;
+        }
+
+        .mention-popup {
+            position: absolute;
+            left: 1rem;
+            right: 1rem;
+            bottom: 100%;
+            z-index: 100;
+            max-height: 40vh;
+            overflow-y: auto;
+            padding: 0.3rem 0;
+            background-color: var(--vscode-editorSuggestWidget-background, var(--vscode-editor-background));
+            border: 1px solid var(--vscode-editorSuggestWidget-border, var(--vscode-widget-border));
+            border-radius: 4px;
+            box-shadow: 0 4px 12px rgba(0, 0, 0, 0.4);
+            font-size: 0.8rem;
+        }
+
+        .mention-item {
+            display: flex;
+            align-items: baseline;
+            gap: 0.5rem;
+            padding: 0.2rem 0.6rem;
+            cursor: pointer;
+        }
+
+        .mention-item.active {
+            background-color: var(--vscode-editorSuggestWidget-selectedBackground, var(--vscode-list-activeSelectionBackground));
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .mention-detail {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.75rem;
+        }
+
+        .mention-empty {
+            padding: 0.3rem 0.6rem;
+            color: var(--vscode-descriptionForeground);
         }
 
         .input-area {
@@ -69,6 +144,8 @@ export class ChatInput extends LitElement {
                 Drop files here or type your message
             </div>
 
+            ${this.mention ? this.renderMentions() : ''}
+
             <vscode-text-area
                 placeholder="${this.placeholder}"
                 resize="vertical"
@@ -82,18 +159,136 @@ export class ChatInput extends LitElement {
                 <vscode-button appearance="secondary" @click="${this.handleClear}">
                     Clear
                 </vscode-button>
-                <vscode-button appearance="primary" @click="${this.handleSend}">
-                    Send ${this.contextCount > 0 ? html`(${this.contextCount})` : ''}
-                </vscode-button>
+                ${this.generating ? html`
+                    <vscode-button appearance="primary" @click="${this.handleStop}" title="Stop generation (Esc)">
+                        ⏹ Stop
+                    </vscode-button>
+                ` : html`
+                    <vscode-button appearance="primary" @click="${this.handleSend}">
+                        Send ${this.contextCount > 0 ? html`(${this.contextCount})` : ''}
+                    </vscode-button>
+                `}
+            </div>
+        `;
+    }
+
+    private renderMentions() {
+        const icons: Record<MentionOption['type'], string> = { file: '📄', folder: '📁', code: '#' };
+        return html`
+            <div class="mention-popup">
+                ${this.mentionResults.length === 0 ? html`
+                    <div class="mention-empty">${this.mention?.kind === 'symbol' ? 'Type to search symbols...' : 'No matching files'}</div>
+                ` : this.mentionResults.map((result, index) => html`
+                    <div class="mention-item ${index === this.mentionIndex ? 'active' : ''}"
+                        @mousedown="${(e: Event) => { e.preventDefault(); this.selectMention(result); }}">
+                        <span>${icons[result.type]} ${result.name}</span>
+                        <span class="mention-detail">${result.detail || ''}</span>
+                    </div>
+                `)}
             </div>
         `;
     }
 
     private handleInput(e: CustomEvent) {
         this.inputValue = (e.target as HTMLTextAreaElement).value;
+        this.updateMention();
+    }
+
+    private getTextArea(): HTMLTextAreaElement | undefined {
+        return this.shadowRoot?.querySelector<ToolkitTextArea>('vscode-text-area')?.control;
+    }
+
+    // Track an @-mention being typed before the caret and ask the extension for matches
+    private updateMention() {
+        const caret = this.getTextArea()?.selectionStart ?? this.inputValue.length;
+        const match = MENTION_PATTERN.exec(this.inputValue.slice(0, caret));
+        if (!match) {
+            this.closeMention();
+            return;
+        }
+
+        const kind = match[1] ? 'symbol' : 'file';
+        const query = match[2];
+        this.mention = { start: caret - query.length - match[1].length - 1, kind, query };
+        this.mentionIndex = 0;
+
+        window.clearTimeout(this.mentionTimer);
+        this.mentionTimer = window.setTimeout(() => {
+            this.dispatchEvent(new CustomEvent('mention-query', {
+                detail: { query, kind },
+                bubbles: true,
+                composed: true
+            }));
+        }, 120);
+    }
+
+    private closeMention() {
+        window.clearTimeout(this.mentionTimer);
+        this.mention = null;
+    }
+
+    private async selectMention(result: MentionOption) {
+        const mention = this.mention;
+        if (!mention) return;
+
+        const token = `@${mention.kind === 'symbol' ? '#' : ''}${result.name} `;
+        const end = mention.start + 1 + (mention.kind === 'symbol' ? 1 : 0) + mention.query.length;
+        this.inputValue = this.inputValue.slice(0, mention.start) + token + this.inputValue.slice(end);
+        this.closeMention();
+
+        this.dispatchEvent(new CustomEvent('mention-select', {
+            detail: { result },
+            bubbles: true,
+            composed: true
+        }));
+
+        await this.updateComplete;
+        const textArea = this.getTextArea();
+        if (textArea) {
+            const caret = mention.start + token.length;
+            textArea.focus();
+            textArea.setSelectionRange(caret, caret);
+        }
+    }
+
+    // Arrow keys, Enter/Tab and Escape drive the mention popup while it is open
+    private handleMentionKeydown(e: KeyboardEvent): boolean {
+        if (!this.mention) return false;
+        const count = this.mentionResults.length;
+        switch (e.key) {
+            case 'ArrowDown':
+                if (!count) return false;
+                this.mentionIndex = (this.mentionIndex + 1) % count;
+                break;
+            case 'ArrowUp':
+                if (!count) return false;
+                this.mentionIndex = (this.mentionIndex - 1 + count) % count;
+                break;
+            case 'Enter':
+            case 'Tab':
+                if (!count) return false;
+                this.selectMention(this.mentionResults[Math.min(this.mentionIndex, count - 1)]);
+                break;
+            case 'Escape':
+                this.closeMention();
+                break;
+            default:
+                return false;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+        return true;
     }
 
     private handleKeydown(e: KeyboardEvent) {
+        if (this.handleMentionKeydown(e)) {
+            return;
+        }
+        if (e.key === 'Escape' && this.generating) {
+            e.preventDefault();
+            this.handleStop();
+            return;
+        }
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             this.handleSend();
@@ -101,7 +296,7 @@ export class ChatInput extends LitElement {
     }
 
     private handleSend() {
-        if (!this.inputValue.trim()) return;
+        if (!this.inputValue.trim() || this.generating) return;
 
         this.dispatchEvent(new CustomEvent('send-message', {
             detail: { text: this.inputValue },
@@ -110,6 +305,14 @@ export class ChatInput extends LitElement {
         }));
 
         this.inputValue = '';
+        this.closeMention();
+    }
+
+    private handleStop() {
+        this.dispatchEvent(new CustomEvent('stop-generation', {
+            bubbles: true,
+            composed: true
+        }));
     }
 
     private handleClear() {
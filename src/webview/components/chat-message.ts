@@ -1,6 +1,9 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { renderMarkdown } from '../utils/markdown-renderer';
+import './tool-call';
+import './reasoning-block';
+import { MessageUsage, formatCost, formatTokens } from '../utils/usage-format';
 
 export interface ChatMessage {
     id: string;
@@ -11,6 +14,29 @@ export interface ChatMessage {
     type?: 'explain' | 'fix' | 'test' | 'general';
     hasCode?: boolean;
     hasDiff?: boolean;
+    interrupted?: boolean;
+    // Streamed assistant messages keep their backend parts in order
+    parts?: ChatMessagePart[];
+    usage?: MessageUsage;
+    // Failed run shown as an error bubble
+    error?: { category: string; message: string; canRetry: boolean };
+}
+
+const ERROR_CATEGORIES: Record<string, string> = {
+    auth: 'Authentication error',
+    rate_limit: 'Rate limited',
+    provider: 'Provider error',
+    output_length: 'Output limit reached',
+    request: 'Request failed',
+    unknown: 'Error'
+};
+
+export interface ChatMessagePart {
+    id: string;
+    type: string;
+    text?: string;
+    synthetic?: boolean;
+    [key: string]: any;
 }
 
 interface ContextItem {
@@ -31,6 +57,10 @@ export class ChatMessageElement extends LitElement {
     @property({ type: Boolean })
     showActions = false;
 
+    // How reasoning parts are shown: collapsed, expanded or hidden
+    @property({ type: String })
+    reasoningDisplay: 'collapsed' | 'expanded' | 'hidden' = 'collapsed';
+
     @property({ type: String, attribute: 'role' })
     role: string = 'assistant';
 
@@ -96,6 +126,22 @@ export class ChatMessageElement extends LitElement {
             font-size: 0.9em;
         }
 
+        .message.error {
+            border: 1px solid var(--vscode-inputValidation-errorBorder, var(--vscode-errorForeground));
+            background-color: var(--vscode-inputValidation-errorBackground, var(--vscode-editor-inactiveSelectionBackground));
+        }
+
+        .error-category {
+            font-weight: 600;
+            color: var(--vscode-errorForeground);
+        }
+
+        .error-text {
+            margin-top: 0.3rem;
+            white-space: pre-wrap;
+            word-break: break-word;
+        }
+
         .message-header {
             display: flex;
             align-items: center;
@@ -106,6 +152,21 @@ export class ChatMessageElement extends LitElement {
             font-size: 1.2rem;
         }
 
+        .usage {
+            margin-top: 0.4rem;
+            font-size: 0.7rem;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .interrupted-tag {
+            margin-left: 0.5rem;
+            font-size: 0.75rem;
+            color: var(--vscode-descriptionForeground);
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 3px;
+            padding: 0 0.3rem;
+        }
+
         .message .content {
             line-height: 1.6;
         }
@@ -241,6 +302,10 @@ export class ChatMessageElement extends LitElement {
     `;
 
     render() {
+        if (this.message.error) {
+            return this.renderError(this.message.error);
+        }
+
         const emoji = this.message.role === 'assistant' ? this.getEmoji() : '';
 
         return html`
@@ -248,14 +313,71 @@ export class ChatMessageElement extends LitElement {
                 ${this.message.role === 'assistant' ? html`
                     <div class="message-header">
                         <span class="message-emoji">${emoji}</span>
+                        ${this.message.interrupted ? html`<span class="interrupted-tag">⏹ Interrupted</span>` : ''}
                     </div>
                 ` : ''}
-                <div class="content" .innerHTML="${renderMarkdown(this.message.content)}"></div>
+                ${this.message.parts?.length
+                    ? this.message.parts.map(part => this.renderPart(part))
+                    : html`<div class="content" .innerHTML="${renderMarkdown(this.message.content)}"></div>`}
+                ${this.renderUsage()}
                 ${this.renderActions()}
             </div>
         `;
     }
 
+    private renderError(error: NonNullable<ChatMessage['error']>) {
+        return html`
+            <div class="message system error">
+                <div class="error-category">⚠ ${ERROR_CATEGORIES[error.category] || ERROR_CATEGORIES.unknown}</div>
+                <div class="error-text">${error.message}</div>
+                ${error.canRetry ? html`
+                    <div class="message-actions">
+                        <button class="action-btn" @click="${this.handleRetry}" title="Send the last prompt again">
+                            ↻ Retry
+                        </button>
+                    </div>
+                ` : ''}
+            </div>
+        `;
+    }
+
+    private renderUsage() {
+        const usage = this.message.usage;
+        if (this.message.role !== 'assistant' || !usage) return null;
+        const { tokens } = usage;
+        const cache = tokens.cacheRead || tokens.cacheWrite
+            ? ` · cache ${formatTokens(tokens.cacheRead)} read / ${formatTokens(tokens.cacheWrite)} write`
+            : '';
+        return html`
+            <div class="usage" title="Input / output / reasoning / cache tokens and cost">
+                ↑ ${formatTokens(tokens.input)} ↓ ${formatTokens(tokens.output)}${tokens.reasoning ? ` · reasoning ${formatTokens(tokens.reasoning)}` : ''}${cache} · ${formatCost(usage.cost)}
+            </div>
+        `;
+    }
+
+    private renderPart(part: ChatMessagePart) {
+        switch (part.type) {
+            case 'text':
+                if (part.synthetic || !part.text) return null;
+                return html`<div class="content" .innerHTML="${renderMarkdown(part.text)}"></div>`;
+            case 'tool':
+                return html`<tool-call .toolPart="${part}"></tool-call>`;
+            case 'reasoning':
+                // Kept apart from the answer: Copy/Preview only use the text parts
+                if (this.reasoningDisplay === 'hidden' || !part.text) return null;
+                return html`
+                    <reasoning-block
+                        .text="${part.text}"
+                        .time="${part.time}"
+                        .restored="${!!part.restored}"
+                        .defaultExpanded="${this.reasoningDisplay === 'expanded'}"
+                    ></reasoning-block>
+                `;
+            default:
+                return null;
+        }
+    }
+
     private getEmoji(): string {
         switch (this.message.type) {
             case 'explain': return '💡';
@@ -297,6 +419,14 @@ export class ChatMessageElement extends LitElement {
         }));
     }
 
+    private handleRetry() {
+        this.dispatchEvent(new CustomEvent('retry-message', {
+            detail: { message: this.message },
+            bubbles: true,
+            composed: true
+        }));
+    }
+
     private handlePreview() {
         this.dispatchEvent(new CustomEvent('show-preview', {
             detail: { message: this.message },
@@ -1,13 +1,25 @@
-import { LitElement, html, css, TemplateResult } from 'lit';
+import { LitElement, html, css, TemplateResult, PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { provideVSCodeDesignSystem, vsCodeButton, vsCodeTextArea, vsCodeTag, vsCodeBadge } from '@vscode/webview-ui-toolkit';
 import { renderMarkdown, parseMessageForActions, detectMessageType } from '../utils/markdown-renderer';
-import { ChatMessage } from './chat-message';
+import { ChatMessage, ChatMessagePart } from './chat-message';
 import './chat-input';
+import { MentionOption } from './chat-input';
 import './connection-status';
 import './context-bar';
+import { ContextEstimate } from './context-bar';
 import './command-buttons';
 import './range-dialog';
+import './session-picker';
+import { SessionSummary } from './session-picker';
+import './permission-card';
+import { PermissionPrompt } from './permission-card';
+import './model-picker';
+import { ModelOption, ModelRef } from './model-picker';
+import './agent-picker';
+import { AgentOption } from './agent-picker';
+import { MessageUsage, formatCost, formatTokens, totalTokens } from '../utils/usage-format';
+import { postToExtension } from '../utils/message-handler';
 
 provideVSCodeDesignSystem().register(vsCodeButton(), vsCodeTextArea(), vsCodeTag(), vsCodeBadge());
 
@@ -19,6 +31,10 @@ interface ContextItem {
     lineStart?: number;
     lineEnd?: number;
     content?: string;
+    // Folders: what the folder context will carry, filled in by the extension
+    folderSummary?: { entries: number; files: string[]; truncated: boolean };
+    // Pinned items stay attached to every message of the session
+    pinned?: boolean;
 }
 
 interface SlashCommand {
@@ -62,6 +78,12 @@ export class ChatView extends LitElement {
     @state()
     private backendReused = false;
 
+    @state()
+    private streamState: 'connecting' | 'connected' | 'retrying' | 'offline' | null = null;
+
+    @state()
+    private streamRetryInMs = 0;
+
     @state()
     private lastUserCommandType: 'explain' | 'fix' | 'test' | null = null;
 
@@ -80,9 +102,70 @@ export class ChatView extends LitElement {
     @state()
     private rangeEnd = '';
 
+    @state()
+    private sessions: SessionSummary[] = [];
+
+    @state()
+    private activeSessionId: string | null = null;
+
+    @state()
+    private busySessionIds: string[] = [];
+
     @property({ type: Boolean })
     isThinking = false;
 
+    @state()
+    private isGenerating = false;
+
+    @state()
+    private pendingPermissions: PermissionPrompt[] = [];
+
+    @state()
+    private models: ModelOption[] = [];
+
+    @state()
+    private favouriteModels: ModelRef[] = [];
+
+    @state()
+    private recentModels: ModelRef[] = [];
+
+    @state()
+    private selectedModel: ModelRef | null = null;
+
+    @state()
+    private defaultModel: ModelRef | null = null;
+
+    @state()
+    private agents: AgentOption[] = [];
+
+    @state()
+    private sessionUsage: MessageUsage | null = null;
+
+    @state()
+    private sessionBudget = 0;
+
+    @state()
+    private mentionResults: MentionOption[] = [];
+
+    // Only the answer to the latest @-mention query is shown
+    private mentionRequestId = 0;
+
+    // Last pinned list synced with the extension, to avoid echoing it back
+    private pinnedContextKey = '[]';
+
+    @state()
+    private contextEstimates: Record<string, ContextEstimate> = {};
+
+    @state()
+    private reasoningDisplay: 'collapsed' | 'expanded' | 'hidden' = 'collapsed';
+
+    @state()
+    private selectedAgent: string | null = null;
+
+    // Model for the next message only (per-message override)
+    @state()
+    private modelOverride: ModelRef | null = null;
+
     static styles = css`
         :host {
             display: flex;
@@ -282,6 +365,17 @@ export class ChatView extends LitElement {
             box-shadow: 0 0 10px rgba(0, 243, 255, 0.1);
         }
 
+        .session-usage {
+            padding: 0.2rem 1rem;
+            font-size: 0.7rem;
+            color: var(--vscode-descriptionForeground);
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+
+        .session-usage.over-budget {
+            color: var(--vscode-errorForeground);
+        }
+
         .connection-status {
             display: flex;
             align-items: center;
@@ -323,6 +417,13 @@ export class ChatView extends LitElement {
             gap: 0.5rem;
         }
 
+        .input-toolbar {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+        }
+
         .controls {
             display: flex;
             justify-content: space-between;
@@ -621,18 +722,46 @@ export class ChatView extends LitElement {
         }
     `;
 
+    protected updated(changed: PropertyValues) {
+        // Re-estimate whenever what would be sent changes
+        if (changed.has('contextItems') || changed.has('includeFullContext')) {
+            this.requestContextEstimates();
+        }
+        if (changed.has('contextItems')) {
+            this.syncPinnedContext();
+        }
+    }
+
     render() {
         return html`
+            <session-picker
+                .sessions="${this.sessions}"
+                .activeSessionId="${this.activeSessionId}"
+                .busySessionIds="${this.busySessionIds}"
+                @session-action="${this.handleSessionAction}"
+            ></session-picker>
+
+            ${this.renderSessionUsage()}
+
             <div class="chat-container">
                 ${this.messages.map(msg => html`
                     <chat-message
                         .message="${msg}"
                         .showActions="${msg.role === 'assistant' && msg.hasCode && msg.type !== 'explain'}"
                         role="${msg.role}"
+                        .reasoningDisplay="${this.reasoningDisplay}"
                         @copy-code="${(e: CustomEvent) => this.copyCodeToClipboard(e.detail.content)}"
                         @show-preview="${(e: CustomEvent) => this.showDiffPreview(e.detail.message)}"
+                        @open-file="${(e: CustomEvent) => this.openFile(e.detail.path)}"
+                        @retry-message="${this.handleRetry}"
                     ></chat-message>
                 `)}
+                ${this.pendingPermissions.map(permission => html`
+                    <permission-card
+                        .permission="${permission}"
+                        @permission-response="${this.handlePermissionResponse}"
+                    ></permission-card>
+                `)}
                 ${this.isThinking ? html`
                     <div class="message assistant thinking">
                         <vscode-tag>Thinking...</vscode-tag>
@@ -643,6 +772,8 @@ export class ChatView extends LitElement {
             <connection-status
                 .connected="${this.backendConnected}"
                 .reused="${this.backendReused}"
+                .streamState="${this.streamState}"
+                .retryInMs="${this.streamRetryInMs}"
             ></connection-status>
 
             <div class="input-area">
@@ -650,22 +781,51 @@ export class ChatView extends LitElement {
                     .items="${this.contextItems}"
                     .currentFile="${this.currentFile}"
                     .includeFullContext="${this.includeFullContext}"
+                    .estimates="${this.contextEstimates}"
+                    .contextLimit="${this.getContextLimit()}"
                     @add-current-file="${this.addCurrentFileToContext}"
                     @browse-files="${this.requestFileSelection}"
                     @toggle-full-context="${this.toggleFullContext}"
                     @remove-item="${(e: CustomEvent) => this.removeContextItem(e.detail.id)}"
+                    @reduce-item="${this.handleReduceContextItem}"
+                    @pin-item="${(e: CustomEvent) => this.togglePin(e.detail.id)}"
+                    @context-sets="${this.openContextSets}"
                 ></context-bar>
 
                 <command-buttons
                     @command="${this.handleCommand}"
                 ></command-buttons>
 
+                <div class="input-toolbar">
+                    <model-picker
+                        .models="${this.models}"
+                        .favourites="${this.favouriteModels}"
+                        .recent="${this.recentModels}"
+                        .selected="${this.selectedModel}"
+                        .defaultModel="${this.defaultModel}"
+                        .override="${this.modelOverride}"
+                        @model-select="${this.handleModelSelect}"
+                        @model-favourite="${this.handleModelFavourite}"
+                        @model-override-clear="${() => { this.modelOverride = null; }}"
+                    ></model-picker>
+                    <agent-picker
+                        .agents="${this.agents}"
+                        .selected="${this.selectedAgent}"
+                        @agent-select="${this.handleAgentSelect}"
+                    ></agent-picker>
+                </div>
+
                 <chat-input
-                    placeholder="Ask OpenCode (Try /help, @filename, or drag files)..."
+                    placeholder="Ask OpenCode (Try /help, @file, @#symbol, or drag files)..."
                     .contextCount="${this.contextItems.length}"
+                    .generating="${this.isGenerating}"
                     @send-message="${this.handleSendMessage}"
+                    @stop-generation="${this.handleStopGeneration}"
                     @clear-chat="${this.handleClearChat}"
                     @files-dropped="${this.handleFilesDropped}"
+                    .mentionResults="${this.mentionResults}"
+                    @mention-query="${this.handleMentionQuery}"
+                    @mention-select="${this.handleMentionSelect}"
                 ></chat-input>
             </div>
 
@@ -680,6 +840,156 @@ export class ChatView extends LitElement {
         `;
     }
 
+    private renderSessionUsage() {
+        const usage = this.sessionUsage;
+        if (!usage || totalTokens(usage.tokens) === 0) return null;
+        const overBudget = this.sessionBudget > 0 && usage.cost >= this.sessionBudget;
+        return html`
+            <div class="session-usage ${overBudget ? 'over-budget' : ''}"
+                title="Session total: input ${usage.tokens.input}, output ${usage.tokens.output}, reasoning ${usage.tokens.reasoning}, cache read ${usage.tokens.cacheRead}, cache write ${usage.tokens.cacheWrite}">
+                Σ ${formatTokens(totalTokens(usage.tokens))} tokens · ${formatCost(usage.cost)}${this.sessionBudget > 0 ? ` / ${formatCost(this.sessionBudget)} budget` : ''}
+            </div>
+        `;
+    }
+
+    public setUISettings(settings: { reasoningDisplay?: 'collapsed' | 'expanded' | 'hidden' }) {
+        this.reasoningDisplay = settings.reasoningDisplay || 'collapsed';
+    }
+
+    public setSessionUsage(sessionId: string, usage: MessageUsage, budget: number) {
+        if (this.activeSessionId && sessionId !== this.activeSessionId) {
+            return;
+        }
+        this.sessionUsage = usage;
+        this.sessionBudget = budget;
+    }
+
+    // The run failed: stop the indicator and show the error with an optional Retry
+    public showError(error: { category: string; message: string }, canRetry: boolean) {
+        this.isThinking = false;
+        this.isGenerating = false;
+        this.pendingPermissions = [];
+        this.messages = [
+            ...this.messages,
+            {
+                id: Date.now().toString(),
+                role: 'system',
+                content: error.message,
+                timestamp: Date.now(),
+                error: { ...error, canRetry }
+            }
+        ];
+    }
+
+    private handleRetry() {
+        // Only the latest prompt can be resent, so earlier error bubbles go too
+        this.messages = this.messages.filter(m => !m.error);
+        this.isThinking = true;
+        postToExtension({ type: 'chat.retry' });
+    }
+
+    // The extension refused to send the prompt (e.g. session over budget)
+    public markBlocked(reason: string) {
+        this.isThinking = false;
+        this.isGenerating = false;
+        this.addMessage('system', `⛔ ${reason}`);
+    }
+
+    private handleSessionAction(e: CustomEvent) {
+        const { action, sessionId } = e.detail;
+        postToExtension({
+            type: `session.${action}`,
+            sessionId
+        });
+    }
+
+    public setModelState(state: { models: ModelOption[]; favourites: ModelRef[]; recent: ModelRef[]; selected: ModelRef | null; defaultModel: ModelRef | null }) {
+        this.models = state.models || [];
+        this.favouriteModels = state.favourites || [];
+        this.recentModels = state.recent || [];
+        this.selectedModel = state.selected;
+        this.defaultModel = state.defaultModel;
+    }
+
+    private handleModelSelect(e: CustomEvent) {
+        const { model, once } = e.detail;
+        if (once) {
+            this.modelOverride = model;
+            return;
+        }
+        this.modelOverride = null;
+        postToExtension({ type: 'model.select', model });
+    }
+
+    public setAgentState(agents: AgentOption[], selected: string | null) {
+        this.agents = agents;
+        this.selectedAgent = selected;
+    }
+
+    private handleAgentSelect(e: CustomEvent) {
+        this.selectedAgent = e.detail.agent;
+        postToExtension({ type: 'agent.select', agent: e.detail.agent });
+    }
+
+    private handleModelFavourite(e: CustomEvent) {
+        postToExtension({ type: 'model.toggleFavourite', model: e.detail.model });
+    }
+
+    public setBackgroundActivity(sessionIds: string[]) {
+        this.busySessionIds = sessionIds;
+    }
+
+    public setSessionState(sessions: SessionSummary[], activeSessionId: string | null) {
+        const switched = this.activeSessionId !== null && activeSessionId !== this.activeSessionId;
+        this.sessions = sessions;
+        this.activeSessionId = activeSessionId;
+
+        if (switched) {
+            // The transcript belongs to the previous session
+            this.messages = [];
+            this.isThinking = false;
+            this.isGenerating = false;
+            this.pendingPermissions = [];
+            this.sessionUsage = null;
+        }
+    }
+
+    public setHistory(sessionId: string, history: Array<{ id: string; role: 'user' | 'assistant'; text: string; timestamp: number; context: ContextItem[]; usage?: MessageUsage; parts?: ChatMessagePart[] }>) {
+        if (this.activeSessionId && sessionId !== this.activeSessionId) {
+            return;
+        }
+
+        let lastUserType: 'explain' | 'fix' | 'test' | 'general' = 'general';
+        this.messages = history.map(entry => {
+            const parsed = parseMessageForActions(entry.text);
+            let messageType = detectMessageType(entry.text);
+            if (entry.role === 'user') {
+                lastUserType = messageType;
+            } else if (lastUserType !== 'general') {
+                // Mirror addMessage(): assistant replies inherit the command type of the prompt
+                messageType = lastUserType;
+            }
+            return {
+                id: entry.id,
+                role: entry.role,
+                content: entry.text,
+                timestamp: entry.timestamp,
+                context: entry.context.length > 0 ? entry.context : undefined,
+                type: messageType,
+                hasCode: parsed.hasCode,
+                hasDiff: parsed.hasDiff,
+                usage: entry.usage,
+                // Tool cards and reasoning of the saved transcript render like live ones
+                parts: entry.parts
+            };
+        });
+
+        setTimeout(() => {
+            const container = this.shadowRoot?.querySelector('.chat-container');
+            if (container) container.scrollTop = container.scrollHeight;
+        }, 0);
+    }
+
     private handleInput(e: any) {
         this.inputValue = e.target.value;
     }
@@ -742,10 +1052,11 @@ export class ChatView extends LitElement {
         this.addMessage('user', content, includeContext);
         this.inputValue = '';
         this.isThinking = true;
+        this.isGenerating = true;
 
-        // Get current context and clear it for next message
+        // Get current context and clear it for next message; pinned items stay
         const currentContext = [...this.contextItems];
-        this.contextItems = [];
+        this.contextItems = this.contextItems.filter(item => item.pinned);
 
         // Dispatch event to VS Code extension
         this.dispatchMessageToExtension(content, currentContext);
@@ -756,6 +1067,7 @@ export class ChatView extends LitElement {
         this.addMessage('user', content, []);
         this.inputValue = '';
         this.isThinking = true;
+        this.isGenerating = true;
 
         // Store the command type for the assistant's response
         const slashCmd = this.parseSlashCommand(content);
@@ -763,8 +1075,8 @@ export class ChatView extends LitElement {
             this.lastUserCommandType = slashCmd.command as 'explain' | 'fix' | 'test';
         }
 
-        // Clear context since we're not using it for slash commands
-        this.contextItems = [];
+        // Clear context since we're not using it for slash commands (pinned items stay)
+        this.contextItems = this.contextItems.filter(item => item.pinned);
 
         // Dispatch event to VS Code extension with empty context
         this.dispatchMessageToExtension(content, []);
@@ -891,7 +1203,7 @@ export class ChatView extends LitElement {
         }
     }
 
-    private addMessage(role: 'user' | 'assistant', content: string, context?: ContextItem[]) {
+    private addMessage(role: ChatMessage['role'], content: string, context?: ContextItem[]) {
         const parsed = parseMessageForActions(content);
         
         // For assistant messages, use the last user command type if available
@@ -927,6 +1239,7 @@ export class ChatView extends LitElement {
     private clearChat() {
         this.messages = [];
         this.isThinking = false;
+        this.isGenerating = false;
         this.contextItems = [];
     }
 
@@ -937,9 +1250,17 @@ export class ChatView extends LitElement {
         if (!exists) {
             this.contextItems = [...this.contextItems, item];
             console.log('[ChatView] Context item added:', item);
+            if (item.type === 'folder') {
+                // Ask the extension what the folder context will include, for the chip
+                postToExtension({ type: 'context.describeFolder', id: item.id, path: item.path });
+            }
         }
     }
 
+    public setFolderSummary(id: string, summary: ContextItem['folderSummary']) {
+        this.contextItems = this.contextItems.map(item => item.id === id ? { ...item, folderSummary: summary } : item);
+    }
+
     public addContextPaths(paths: string[]) {
         paths.forEach(filePath => {
             const isFolder = filePath.endsWith('/') || filePath.endsWith('\\');
@@ -1001,6 +1322,103 @@ export class ChatView extends LitElement {
         }
     }
 
+    // Context window of the model the next message goes to (0 when unknown)
+    private getContextLimit(): number {
+        const current = this.modelOverride || this.selectedModel || this.defaultModel;
+        if (!current) return 0;
+        const option = this.models.find(m => m.providerID === current.providerID && m.modelID === current.modelID);
+        return option?.contextLimit || 0;
+    }
+
+    private requestContextEstimates() {
+        if (this.contextItems.length === 0) {
+            this.contextEstimates = {};
+            return;
+        }
+        postToExtension({
+            type: 'context.estimate',
+            items: this.contextItems,
+            options: { includeFullContext: this.includeFullContext }
+        });
+    }
+
+    private handleMentionQuery(e: CustomEvent) {
+        const requestId = ++this.mentionRequestId;
+        postToExtension({ type: 'mention.search', query: e.detail.query, kind: e.detail.kind, requestId });
+    }
+
+    public setMentionResults(requestId: number, results: MentionOption[]) {
+        if (requestId === this.mentionRequestId) {
+            this.mentionResults = results || [];
+        }
+    }
+
+    // A mention was picked: attach it as context; symbols get their full range from the extension
+    private handleMentionSelect(e: CustomEvent) {
+        const result: MentionOption = e.detail.result;
+        const item: ContextItem = {
+            id: `${result.path}-${Date.now()}`,
+            type: result.type,
+            path: result.path,
+            name: result.name,
+            lineStart: result.lineStart,
+            lineEnd: result.lineEnd
+        };
+        this.addContextItem(item);
+        this.mentionResults = [];
+
+        if (result.type === 'code') {
+            postToExtension({ type: 'mention.resolveSymbol', item });
+        }
+    }
+
+    private togglePin(id: string) {
+        this.contextItems = this.contextItems.map(item => item.id === id ? { ...item, pinned: !item.pinned } : item);
+    }
+
+    // Tell the extension when the pinned items change, so they survive reloads
+    private syncPinnedContext() {
+        const pinned = this.contextItems.filter(item => item.pinned);
+        const key = JSON.stringify(pinned);
+        if (key === this.pinnedContextKey) return;
+        this.pinnedContextKey = key;
+        postToExtension({ type: 'context.pin', items: pinned });
+    }
+
+    // Pinned items of the active session, from the extension (after a reload or a session switch)
+    public setPinnedContext(items: ContextItem[]) {
+        const pinned = (items || []).map(item => ({ ...item, pinned: true }));
+        this.pinnedContextKey = JSON.stringify(pinned);
+        this.contextItems = [...this.contextItems.filter(item => !item.pinned), ...pinned];
+    }
+
+    private openContextSets() {
+        postToExtension({ type: 'context.sets', items: this.contextItems.filter(item => item.pinned) });
+    }
+
+    // A saved context set was picked: attach its items pinned
+    public applyContextSet(items: ContextItem[]) {
+        (items || []).forEach((item, index) => {
+            this.addContextItem({ ...item, id: `${item.path}-${Date.now()}-${index}`, pinned: true });
+        });
+    }
+
+    public setContextEstimates(estimates: Record<string, ContextEstimate>) {
+        this.contextEstimates = estimates || {};
+    }
+
+    private handleReduceContextItem(e: CustomEvent) {
+        postToExtension({
+            type: 'context.reduce',
+            item: e.detail.item,
+            action: e.detail.action
+        });
+    }
+
+    public updateContextItem(id: string, changes: Partial<ContextItem>) {
+        this.contextItems = this.contextItems.map(item => item.id === id ? { ...item, ...changes } : item);
+    }
+
     private toggleFullContext() {
         this.includeFullContext = !this.includeFullContext;
     }
@@ -1053,9 +1471,12 @@ export class ChatView extends LitElement {
                     text: text,
                     context: context,
                     options: {
-                        includeFullContext: this.includeFullContext
+                        includeFullContext: this.includeFullContext,
+                        model: this.modelOverride || undefined
                     }
                 });
+                // The override only applies to this message
+                this.modelOverride = null;
                 console.log('[ChatView] Message posted successfully');
             } catch (err) {
                 console.error('[ChatView] Error posting message:', err);
@@ -1073,8 +1494,124 @@ export class ChatView extends LitElement {
     // Exposed method to receive messages from extension
     public receiveMessage(text: string) {
         this.isThinking = false;
+        this.isGenerating = false;
         this.addMessage('assistant', text);
     }
+
+    // Exposed method to receive an assembled (possibly still streaming) assistant message
+    public upsertMessage(sessionId: string, message: { id: string; created: number; parts: ChatMessagePart[]; usage?: MessageUsage }) {
+        if (this.activeSessionId && sessionId !== this.activeSessionId) {
+            return;
+        }
+
+        const content = message.parts
+            .filter(p => p.type === 'text' && !p.synthetic && p.text)
+            .map(p => p.text)
+            .join('');
+        const parsed = parseMessageForActions(content);
+        const index = this.messages.findIndex(m => m.id === message.id);
+
+        if (index >= 0) {
+            const updated = [...this.messages];
+            updated[index] = {
+                ...updated[index],
+                content,
+                parts: message.parts,
+                usage: message.usage,
+                hasCode: parsed.hasCode,
+                hasDiff: parsed.hasDiff
+            };
+            this.messages = updated;
+        } else {
+            // First part of a new answer: same command type rule as addMessage()
+            const messageType = this.lastUserCommandType || detectMessageType(content);
+            this.lastUserCommandType = null;
+            this.isThinking = false;
+            this.messages = [
+                ...this.messages,
+                {
+                    id: message.id,
+                    role: 'assistant',
+                    content,
+                    timestamp: message.created,
+                    type: messageType,
+                    hasCode: parsed.hasCode,
+                    hasDiff: parsed.hasDiff,
+                    parts: message.parts,
+                    usage: message.usage
+                }
+            ];
+
+            setTimeout(() => {
+                const container = this.shadowRoot?.querySelector('.chat-container');
+                if (container) container.scrollTop = container.scrollHeight;
+            }, 0);
+        }
+    }
+
+    private openFile(path: string) {
+        postToExtension({ type: 'openFile', path });
+    }
+
+    // The agent is waiting for approval before running a tool
+    public addPermissionRequest(sessionId: string, permission: PermissionPrompt) {
+        if (this.activeSessionId && sessionId !== this.activeSessionId) {
+            return;
+        }
+        if (this.pendingPermissions.some(p => p.id === permission.id)) {
+            return;
+        }
+        this.pendingPermissions = [...this.pendingPermissions, permission];
+
+        setTimeout(() => {
+            const container = this.shadowRoot?.querySelector('.chat-container');
+            if (container) container.scrollTop = container.scrollHeight;
+        }, 0);
+    }
+
+    public resolvePermission(permissionId: string) {
+        this.pendingPermissions = this.pendingPermissions.filter(p => p.id !== permissionId);
+    }
+
+    private handlePermissionResponse(e: CustomEvent) {
+        const { permissionId, response } = e.detail;
+        postToExtension({
+            type: 'permission.respond',
+            permissionId,
+            response
+        });
+    }
+
+    private handleStopGeneration() {
+        postToExtension({ type: 'chat.abort' });
+    }
+
+    // The backend finished the run for the active session
+    public setIdle() {
+        this.isThinking = false;
+        this.isGenerating = false;
+    }
+
+    // The run was aborted: flag the partial answer (if any) as interrupted
+    public markAborted() {
+        const wasActive = this.isThinking || this.isGenerating;
+        this.isThinking = false;
+        this.isGenerating = false;
+        // The backend rejects pending permission requests when the run is cancelled
+        this.pendingPermissions = [];
+        if (!wasActive) {
+            return;
+        }
+
+        // Only an answer streamed after the last user message belongs to the stopped run
+        const lastMsg = this.messages[this.messages.length - 1];
+        if (lastMsg && lastMsg.role === 'assistant') {
+            // A new object, so chat-message sees the change and renders the tag
+            this.messages = [...this.messages.slice(0, -1), { ...lastMsg, interrupted: true }];
+        } else {
+            this.addMessage('system', '⏹ Generation stopped');
+        }
+    }
     
     public handleServerEvent(event: any) {
         console.log('[ChatView] Processing event:', event.type, event);
@@ -1101,6 +1638,11 @@ export class ChatView extends LitElement {
                 this.backendReused = event.reused;
                 console.log('[ChatView] Connection status:', event.connected, '(reused:', event.reused, ')');
                 break;
+
+            case 'connection.stream':
+                this.streamState = event.state;
+                this.streamRetryInMs = event.retryInMs || 0;
+                break;
                 
             default:
                 console.log('[ChatView] Unknown event type:', event.type);
@@ -1166,6 +1708,8 @@ export class ChatView extends LitElement {
                 type: 'diff.show',
                 content: message.content,
                 messageId: message.id,
+                // Lets the extension find the file contents this answer was based on
+                messageTime: message.timestamp,
                 filePath: filePath,
                 fileName: fileName
             });
@@ -9,6 +9,13 @@ export class ConnectionStatus extends LitElement {
     @property({ type: Boolean })
     reused = false;
 
+    // State of the backend event stream; null until the extension reports it
+    @property({ type: String })
+    streamState: 'connecting' | 'connected' | 'retrying' | 'offline' | null = null;
+
+    @property({ type: Number })
+    retryInMs = 0;
+
     static styles = css`
         :host {
             display: block;
@@ -37,6 +44,10 @@ export class ConnectionStatus extends LitElement {
             background-color: var(--vscode-charts-green);
         }
 
+        .connection-dot.offline {
+            background-color: var(--vscode-charts-red);
+        }
+
         :host-context(.dragonfu-theme) .connection-dot.connected {
             background-color: var(--dragonfu-neon-green, #00ff88);
             box-shadow: 0 0 6px var(--dragonfu-neon-green, #00ff88);
@@ -48,17 +59,37 @@ export class ConnectionStatus extends LitElement {
     `;
 
     render() {
-        const statusText = this.connected 
+        let statusText = this.connected 
             ? (this.reused ? 'Existing' : 'New')
             : 'Connecting';
         
-        const tooltipText = this.connected
+        let tooltipText = this.connected
             ? (this.reused ? 'Connected to existing backend' : 'Backend running')
             : 'Connecting...';
 
+        let dotClass = this.connected ? 'connected' : '';
+
+        if (this.connected && this.streamState && this.streamState !== 'connected') {
+            switch (this.streamState) {
+                case 'connecting':
+                    statusText = 'Connecting';
+                    tooltipText = 'Opening the event stream...';
+                    break;
+                case 'retrying':
+                    statusText = 'Reconnecting';
+                    tooltipText = `Event stream lost, retrying in ${Math.ceil(this.retryInMs / 1000)}s`;
+                    break;
+                case 'offline':
+                    statusText = 'Offline';
+                    tooltipText = 'Event stream offline; it reconnects when you send a message';
+                    break;
+            }
+            dotClass = this.streamState === 'offline' ? 'offline' : '';
+        }
+
         return html`
             <div class="connection-status">
-                <span class="connection-dot ${this.connected ? 'connected' : ''}" 
+                <span class="connection-dot ${dotClass}" 
                       title="${tooltipText}">
                 </span>
                 <span class="connection-text">${statusText}</span>
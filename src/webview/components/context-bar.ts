@@ -1,5 +1,6 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
+import { formatTokens } from '../utils/usage-format';
 
 export interface ContextItem {
     id: string;
@@ -8,7 +9,20 @@ export interface ContextItem {
     name: string;
     lineStart?: number;
     lineEnd?: number;
+    // Text sent instead of the file once the chip was summarized
     content?: string;
+    // Folders: what the folder context will carry, filled in by the extension
+    folderSummary?: { entries: number; files: string[]; truncated: boolean };
+    // Pinned items stay attached to every message of the session
+    pinned?: boolean;
+}
+
+export interface ContextEstimate {
+    tokens: number;
+    chars: number;
+    truncated: boolean;
+    // Read from an editor with unsaved changes
+    unsaved?: boolean;
 }
 
 @customElement('context-bar')
@@ -22,6 +36,14 @@ export class ContextBar extends LitElement {
     @property({ type: Boolean })
     includeFullContext = false;
 
+    // Estimated tokens per item id, from the extension
+    @property({ type: Object })
+    estimates: Record<string, ContextEstimate> = {};
+
+    // Context window of the model the next message goes to, if known
+    @property({ type: Number })
+    contextLimit = 0;
+
     static styles = css`
         :host {
             display: block;
@@ -68,6 +90,67 @@ export class ContextBar extends LitElement {
             border-left: 3px solid var(--vscode-activityBar-activeBorder);
         }
 
+        .unsaved-tag {
+            padding: 0 0.3rem;
+            border-radius: 3px;
+            background-color: var(--vscode-editorWarning-foreground);
+            color: var(--vscode-editor-background);
+            font-size: 0.7rem;
+        }
+
+        .token-count {
+            opacity: 0.7;
+            font-size: 0.9em;
+        }
+
+        .context-badge.pinned {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+
+        .pin-btn {
+            padding: 0;
+            background: none;
+            border: none;
+            cursor: pointer;
+            font-size: 0.75rem;
+            opacity: 0.35;
+        }
+
+        .pin-btn.active,
+        .pin-btn:hover {
+            opacity: 1;
+        }
+
+        .reduce-btn {
+            padding: 0 0.2rem;
+            background: none;
+            border: none;
+            color: inherit;
+            cursor: pointer;
+            opacity: 0.7;
+        }
+
+        .reduce-btn:hover {
+            opacity: 1;
+        }
+
+        .context-total {
+            flex-basis: 100%;
+            font-size: 0.75rem;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .context-total.over-limit,
+        .context-badge.over-limit .token-count {
+            color: var(--vscode-errorForeground);
+            opacity: 1;
+        }
+
+        .folder-summary {
+            opacity: 0.7;
+            font-size: 0.9em;
+        }
+
         .context-badge.folder {
             border-left: 3px solid var(--vscode-charts-yellow);
         }
@@ -166,6 +249,9 @@ export class ContextBar extends LitElement {
     `;
 
     render() {
+        const total = this.items.reduce((sum, item) => sum + (this.estimates[item.id]?.tokens || 0), 0);
+        const overLimit = this.contextLimit > 0 && total > this.contextLimit;
+
         return html`
             <div class="context-controls">
                 ${this.currentFile ? html`
@@ -176,6 +262,9 @@ export class ContextBar extends LitElement {
                 <button class="add-file-btn" @click="${this.handleBrowse}" title="Select file to add">
                     📁 Browse...
                 </button>
+                <button class="add-file-btn" @click="${this.handleContextSets}" title="Save the pinned items as a named set, or attach a saved set">
+                    📌 Sets
+                </button>
                 <button class="toggle-btn ${this.includeFullContext ? 'active' : ''}" @click="${this.handleToggle}" title="Send full file contents">
                     <span class="toggle-icon">${this.includeFullContext ? '●' : '○'}</span>
                     ${this.includeFullContext ? 'Full' : 'None'}
@@ -184,19 +273,62 @@ export class ContextBar extends LitElement {
 
             ${this.items.length > 0 ? html`
                 <div class="context-area">
-                    ${this.items.map(item => html`
-                        <div class="context-badge ${item.type}" 
-                             title="${item.path}${item.lineStart ? `:${item.lineStart}${item.lineEnd ? `-${item.lineEnd}` : ''}` : ''}">
-                            ${this.getIcon(item.type)}
-                            <span>${item.name}${item.lineStart ? `:${item.lineStart}${item.lineEnd ? `-${item.lineEnd}` : ''}` : ''}</span>
-                            <span class="remove-btn" @click="${() => this.handleRemove(item.id)}">×</span>
-                        </div>
-                    `)}
+                    ${this.items.map(item => this.renderItem(item, overLimit))}
+                    ${this.renderTotal(total, overLimit)}
                 </div>
             ` : ''}
         `;
     }
 
+    private renderItem(item: ContextItem, overLimit: boolean) {
+        const estimate = this.estimates[item.id];
+        const range = item.lineStart ? `:${item.lineStart}${item.lineEnd ? `-${item.lineEnd}` : ''}` : '';
+        // Past the limit, file chips offer ways to shrink them; dropping is the × already there
+        const reducible = overLimit && item.type !== 'folder' && !item.content;
+
+        return html`
+            <div class="context-badge ${item.type} ${overLimit ? 'over-limit' : ''} ${item.pinned ? 'pinned' : ''}" 
+                 title="${item.path}${range}${this.describeFolder(item)}${estimate?.truncated ? '\nCut to context.maxFileChars when sent' : ''}">
+                ${this.getIcon(item.type)}
+                <span>${item.name}${range}${item.content ? ' (summary)' : ''}</span>
+                ${item.folderSummary ? html`
+                    <span class="folder-summary">${item.folderSummary.entries}${item.folderSummary.truncated ? '+' : ''} entries${item.folderSummary.files.length ? ` · ${item.folderSummary.files.length} files` : ''}</span>
+                ` : ''}
+                ${estimate?.unsaved ? html`<span class="unsaved-tag" title="Sent from the editor buffer, which has unsaved changes">unsaved</span>` : ''}
+                ${estimate ? html`<span class="token-count">~${formatTokens(estimate.tokens)}</span>` : ''}
+                ${reducible ? html`
+                    <button class="reduce-btn" title="Trim to a line range" @click="${() => this.handleReduce(item, 'trim')}">✂</button>
+                    <button class="reduce-btn" title="Summarize (symbol outline)" @click="${() => this.handleReduce(item, 'summarize')}">Σ</button>
+                ` : ''}
+                <button class="pin-btn ${item.pinned ? 'active' : ''}"
+                    title="${item.pinned ? 'Unpin (send with the next message only)' : 'Pin (keep for every message in this session)'}"
+                    @click="${() => this.handlePin(item.id)}">📌</button>
+                <span class="remove-btn" title="Drop from context" @click="${() => this.handleRemove(item.id)}">×</span>
+            </div>
+        `;
+    }
+
+    private renderTotal(total: number, overLimit: boolean) {
+        if (!Object.keys(this.estimates).length) return null;
+        return html`
+            <div class="context-total ${overLimit ? 'over-limit' : ''}">
+                ~${formatTokens(total)}${this.contextLimit ? ` / ${formatTokens(this.contextLimit)}` : ''} tokens of context
+                ${overLimit ? ' — over the model\'s context window, reduce or drop some items' : ''}
+            </div>
+        `;
+    }
+
+    // Tooltip lines listing what a folder chip sends
+    private describeFolder(item: ContextItem): string {
+        const summary = item.folderSummary;
+        if (!summary) return '';
+        let text = `\n${summary.entries} entries listed${summary.truncated ? ' (truncated by depth/entry limits)' : ''}`;
+        if (summary.files.length) {
+            text += `\nContents included:\n${summary.files.join('\n')}`;
+        }
+        return text;
+    }
+
     private getIcon(type: string): string {
         switch (type) {
             case 'file': return '📄';
@@ -227,6 +359,29 @@ export class ContextBar extends LitElement {
         }));
     }
 
+    private handleReduce(item: ContextItem, action: 'trim' | 'summarize') {
+        this.dispatchEvent(new CustomEvent('reduce-item', {
+            detail: { item, action },
+            bubbles: true,
+            composed: true
+        }));
+    }
+
+    private handlePin(id: string) {
+        this.dispatchEvent(new CustomEvent('pin-item', {
+            detail: { id },
+            bubbles: true,
+            composed: true
+        }));
+    }
+
+    private handleContextSets() {
+        this.dispatchEvent(new CustomEvent('context-sets', {
+            bubbles: true,
+            composed: true
+        }));
+    }
+
     private handleRemove(id: string) {
         this.dispatchEvent(new CustomEvent('remove-item', {
             detail: { id },
@@ -2,13 +2,29 @@ import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { provideVSCodeDesignSystem, vsCodeButton } from '@vscode/webview-ui-toolkit';
 import { extractCodeFromMessage } from '../utils/markdown-renderer';
+import { postToExtension } from '../utils/message-handler';
 
 provideVSCodeDesignSystem().register(vsCodeButton());
 
-interface DiffLine {
+// Mirrors DiffLine / DiffHunk in src/ui/LineDiff.ts; the extension host computes them
+export interface DiffLine {
     type: 'unchanged' | 'added' | 'removed';
     content: string;
-    lineNumber?: number;
+    oldLine?: number;
+    newLine?: number;
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+interface SplitRow {
+    left?: DiffLine;
+    right?: DiffLine;
 }
 
 @customElement('diff-preview')
@@ -25,9 +41,31 @@ export class DiffPreview extends LitElement {
     @property({ type: String })
     filePath = '';
 
+    @property({ type: Array })
+    hunks: DiffHunk[] | null = null;
+
+    // The target file does not exist yet
+    @property({ type: Boolean })
+    newFile = false;
+
+    // Creation time of the answer; sent back so the extension can merge with edits made after the request
+    @property({ type: Number })
+    messageTime: number | null = null;
+
+    // fixedCode is already the proposal merged into the user's later edits
+    @property({ type: Boolean })
+    merged = false;
+
+    @property({ type: Number })
+    conflicts = 0;
+
     @state()
     private viewMode: 'split' | 'unified' = 'unified';
 
+    // Indexes of hunks unticked by the user; everything else is applied
+    @state()
+    private rejectedHunks = new Set<number>();
+
     static styles = css`
         :host {
             display: block;
@@ -161,6 +199,54 @@ export class DiffPreview extends LitElement {
             background-color: rgba(255, 0, 85, 0.1);
         }
 
+        .hunk-header {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            padding: 0.2rem 1rem;
+            background-color: var(--vscode-diffEditor-unchangedRegionBackground, var(--vscode-editor-inactiveSelectionBackground));
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.8rem;
+        }
+
+        .split-row {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+        }
+
+        .split-row .diff-line {
+            min-width: 0;
+        }
+
+        .split-row .diff-line + .diff-line {
+            border-left: 1px solid var(--vscode-widget-border);
+        }
+
+        .hunk-header input {
+            margin: 0;
+            cursor: pointer;
+        }
+
+        .hunk-rejected .diff-line {
+            opacity: 0.45;
+        }
+
+        .merge-notice {
+            padding: 0.4rem 1rem;
+            border-bottom: 1px solid var(--vscode-widget-border);
+            font-size: 0.8rem;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .merge-notice.conflicts {
+            color: var(--vscode-editorWarning-foreground);
+        }
+
+        .no-changes {
+            padding: 1rem;
+            color: var(--vscode-descriptionForeground);
+        }
+
         .line-number {
             min-width: 40px;
             color: var(--vscode-editorLineNumber-foreground);
@@ -233,8 +319,7 @@ export class DiffPreview extends LitElement {
     `;
 
     render() {
-        const originalLines = this.originalCode.split('\n');
-        const fixedLines = this.fixedCode.split('\n');
+        const hunks = this.getHunks();
 
         return html`
             <div class="diff-header">
@@ -243,7 +328,7 @@ export class DiffPreview extends LitElement {
                         ← Volver
                     </button>
                 </div>
-                <div class="diff-title">📄 ${this.fileName} - Preview de cambios</div>
+                <div class="diff-title">📄 ${this.fileName}${this.newFile ? ' (archivo nuevo)' : ''} - Preview de cambios</div>
                 <div class="diff-actions">
                     <div class="view-toggle">
                         <button 
@@ -258,10 +343,14 @@ export class DiffPreview extends LitElement {
                 </div>
             </div>
 
+            ${this.renderMergeNotice()}
+
             <div class="diff-container">
-                ${this.viewMode === 'split' 
-                    ? this.renderSplitView(originalLines, fixedLines)
-                    : this.renderUnifiedView(originalLines, fixedLines)
+                ${hunks.length === 0
+                    ? html`<div class="no-changes">Sin cambios: el código propuesto coincide con el archivo.</div>`
+                    : this.viewMode === 'split'
+                        ? this.renderSplitView(hunks)
+                        : this.renderUnifiedView(hunks)
                 }
             </div>
 
@@ -269,86 +358,180 @@ export class DiffPreview extends LitElement {
                 <button class="discard-btn" @click="${this.handleDiscard}">
                     ❌ Descartar
                 </button>
-                <button class="apply-btn" @click="${this.handleApply}">
-                    ✅ Aplicar cambios
+                <button class="discard-btn" @click="${this.handleOpenEditor}" ?disabled="${!this.filePath}"
+                    title="Abrir en el editor de diff de VS Code (Accept / Reject en la barra del editor)">
+                    🔀 Abrir en editor de diff
+                </button>
+                <button class="apply-btn" @click="${this.handleApply}"
+                    ?disabled="${hunks.length > 0 && this.rejectedHunks.size === hunks.length}">
+                    ✅ Aplicar cambios${this.rejectedHunks.size > 0 ? ` (${hunks.length - this.rejectedHunks.size}/${hunks.length})` : ''}
                 </button>
             </div>
         `;
     }
 
-    private renderSplitView(originalLines: string[], fixedLines: string[]) {
+    private renderSplitView(hunks: DiffHunk[]) {
         return html`
-            <div class="diff-split">
-                <div class="diff-pane">
+            <div class="diff-pane" style="width: 100%;">
+                <div class="split-row">
                     <div class="diff-pane-header before">❌ Antes</div>
-                    <ul class="diff-lines">
-                        ${originalLines.map((line, i) => html`
-                            <li class="diff-line ${line.startsWith('-') ? 'removed' : ''}">
-                                <span class="line-number">${i + 1}</span>
-                                <span class="line-prefix">${line.startsWith('-') ? '-' : ' '}</span>
-                                <span class="line-content">${line.replace(/^[+-]\s?/, '')}</span>
-                            </li>
-                        `)}
-                    </ul>
-                </div>
-                <div class="diff-pane">
                     <div class="diff-pane-header after">✅ Después</div>
-                    <ul class="diff-lines">
-                        ${fixedLines.map((line, i) => html`
-                            <li class="diff-line ${line.startsWith('+') ? 'added' : ''}">
-                                <span class="line-number">${i + 1}</span>
-                                <span class="line-prefix">${line.startsWith('+') ? '+' : ' '}</span>
-                                <span class="line-content">${line.replace(/^[+-]\s?/, '')}</span>
+                </div>
+                ${hunks.map((hunk, index) => html`
+                    ${this.renderHunkHeader(hunk, index, hunks.length)}
+                    <div class="${this.rejectedHunks.has(index) ? 'hunk-rejected' : ''}">
+                        ${this.toSplitRows(hunk.lines).map(row => html`
+                            <div class="split-row">
+                                ${this.renderSide(row.left, 'old')}
+                                ${this.renderSide(row.right, 'new')}
+                            </div>
+                        `)}
+                    </div>
+                `)}
+            </div>
+        `;
+    }
+
+    private renderSide(line: DiffLine | undefined, side: 'old' | 'new') {
+        if (!line) {
+            return html`<div class="diff-line"></div>`;
+        }
+        return html`
+            <div class="diff-line ${line.type}">
+                <span class="line-number">${side === 'old' ? line.oldLine : line.newLine}</span>
+                <span class="line-prefix">${this.linePrefix(line)}</span>
+                <span class="line-content">${line.content}</span>
+            </div>
+        `;
+    }
+
+    private renderUnifiedView(hunks: DiffHunk[]) {
+        return html`
+            <div class="diff-pane" style="width: 100%;">
+                ${hunks.map((hunk, index) => html`
+                    ${this.renderHunkHeader(hunk, index, hunks.length)}
+                    <ul class="diff-lines ${this.rejectedHunks.has(index) ? 'hunk-rejected' : ''}">
+                        ${hunk.lines.map(line => html`
+                            <li class="diff-line ${line.type}">
+                                <span class="line-number">${line.oldLine ?? ''}</span>
+                                <span class="line-number">${line.newLine ?? ''}</span>
+                                <span class="line-prefix">${this.linePrefix(line)}</span>
+                                <span class="line-content">${line.content}</span>
                             </li>
                         `)}
                     </ul>
-                </div>
+                `)}
             </div>
         `;
     }
 
-    private renderUnifiedView(originalLines: string[], fixedLines: string[]) {
-        const allLines: DiffLine[] = [];
-        
-        originalLines.forEach((line, i) => {
-            allLines.push({
-                type: line.startsWith('-') ? 'removed' : 'unchanged',
-                content: line.replace(/^[+-]\s?/, ''),
-                lineNumber: i + 1
-            });
-        });
+    // Without a diff from the extension (no target file) every proposed line is an addition
+    private getHunks(): DiffHunk[] {
+        if (this.hunks) {
+            return this.hunks;
+        }
+        const lines = this.fixedCode.replace(/\r?\n$/, '').split(/\r?\n/);
+        return [{
+            oldStart: 0,
+            oldLines: 0,
+            newStart: 1,
+            newLines: lines.length,
+            lines: lines.map((content, i) => ({ type: 'added' as const, content, newLine: i + 1 }))
+        }];
+    }
 
-        fixedLines.forEach((line, i) => {
-            if (line.startsWith('+')) {
-                allLines.push({
-                    type: 'added',
-                    content: line.replace(/^[+-]\s?/, ''),
-                    lineNumber: originalLines.length + i + 1
-                });
-            }
-        });
+    private renderMergeNotice() {
+        if (this.conflicts > 0) {
+            return html`<div class="merge-notice conflicts">⚠️ Editaste el archivo después de enviarlo y ${this.conflicts} cambio(s) chocan con la propuesta: al aplicar se abre con marcadores de conflicto.</div>`;
+        }
+        if (this.merged) {
+            return html`<div class="merge-notice">🔀 Editaste el archivo después de enviarlo: la vista muestra la propuesta combinada con tus ediciones.</div>`;
+        }
+        return null;
+    }
 
+    // Hunks can only be picked when the extension diffed against a real file and nothing conflicts
+    private renderHunkHeader(hunk: DiffHunk, index: number, total: number) {
         return html`
-            <div class="diff-pane" style="width: 100%;">
-                <ul class="diff-lines">
-                    ${allLines.map(line => html`
-                        <li class="diff-line ${line.type}">
-                            <span class="line-number">${line.lineNumber || ''}</span>
-                            <span class="line-prefix">${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}</span>
-                            <span class="line-content">${line.content}</span>
-                        </li>
-                    `)}
-                </ul>
+            <div class="hunk-header">
+                ${this.hunks && total > 1 && this.conflicts === 0 ? html`
+                    <input type="checkbox" title="Aplicar este bloque"
+                        .checked="${!this.rejectedHunks.has(index)}"
+                        @change="${() => this.toggleHunk(index)}">
+                ` : ''}
+                <span>${this.hunkLabel(hunk)}</span>
             </div>
         `;
     }
 
+    private toggleHunk(index: number) {
+        const rejected = new Set(this.rejectedHunks);
+        if (!rejected.delete(index)) {
+            rejected.add(index);
+        }
+        this.rejectedHunks = rejected;
+    }
+
+    private hunkLabel(hunk: DiffHunk): string {
+        return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+    }
+
+    private linePrefix(line: DiffLine): string {
+        return line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+    }
+
+    // Pair each run of removed lines with the added lines that follow it so replacements sit side by side
+    private toSplitRows(lines: DiffLine[]): SplitRow[] {
+        const rows: SplitRow[] = [];
+        let removed: DiffLine[] = [];
+        let added: DiffLine[] = [];
+        const flush = () => {
+            for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+                rows.push({ left: removed[i], right: added[i] });
+            }
+            removed = [];
+            added = [];
+        };
+        for (const line of lines) {
+            if (line.type === 'removed') {
+                if (added.length > 0) flush();
+                removed.push(line);
+            } else if (line.type === 'added') {
+                added.push(line);
+            } else {
+                flush();
+                rows.push({ left: line, right: line });
+            }
+        }
+        flush();
+        return rows;
+    }
+
     private handleApply() {
         console.log('[DiffPreview] Apply clicked - filePath:', this.filePath, 'fileName:', this.fileName);
-        // Dispatch event for main.ts to handle
-        window.dispatchEvent(new CustomEvent('message', {
-            detail: { type: 'diff.applyCode', code: this.fixedCode, fileName: this.fileName, filePath: this.filePath }
-        }));
+        // With some hunks unticked the extension merges just the accepted ones into the file
+        const accepted = this.hunks && this.rejectedHunks.size > 0
+            ? this.hunks.filter((_, index) => !this.rejectedHunks.has(index))
+            : undefined;
+        postToExtension({
+            type: 'diff.applyCode',
+            code: this.fixedCode,
+            fileName: this.fileName,
+            filePath: this.filePath,
+            hunks: accepted,
+            messageTime: this.basedOn()
+        });
+        this.close();
+    }
+
+    private handleOpenEditor() {
+        postToExtension({
+            type: 'diff.openEditor',
+            code: this.fixedCode,
+            fileName: this.fileName,
+            filePath: this.filePath,
+            messageTime: this.basedOn()
+        });
         this.close();
     }
 
@@ -373,11 +556,25 @@ export class DiffPreview extends LitElement {
         }
     }
 
-    public setDiff(original: string, fixed: string, fileName: string, filePath: string = '') {
+    // Merged code must not be merged again; hunks are already relative to the current file
+    private basedOn(): number | undefined {
+        return this.merged || this.messageTime === null ? undefined : this.messageTime;
+    }
+
+    public setMergeState(messageTime?: number, merged = false, conflicts = 0) {
+        this.messageTime = messageTime ?? null;
+        this.merged = merged;
+        this.conflicts = conflicts;
+    }
+
+    public setDiff(original: string, fixed: string, fileName: string, filePath: string = '', hunks?: DiffHunk[], newFile = false) {
         this.originalCode = original;
         this.fixedCode = fixed;
         this.fileName = fileName;
         this.filePath = filePath;
+        this.hunks = hunks || null;
+        this.newFile = newFile;
+        this.rejectedHunks = new Set();
     }
 }
 
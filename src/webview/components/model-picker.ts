@@ -0,0 +1,319 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+export interface ModelRef {
+    providerID: string;
+    modelID: string;
+    variant?: string;
+}
+
+export interface ModelOption {
+    providerID: string;
+    providerName: string;
+    modelID: string;
+    name: string;
+    variants: string[];
+    contextLimit?: number;
+}
+
+const sameModel = (a: ModelRef, b: ModelRef) => a.providerID === b.providerID && a.modelID === b.modelID;
+
+@customElement('model-picker')
+export class ModelPicker extends LitElement {
+    @property({ type: Array })
+    models: ModelOption[] = [];
+
+    @property({ type: Array })
+    favourites: ModelRef[] = [];
+
+    @property({ type: Array })
+    recent: ModelRef[] = [];
+
+    // Model chosen in the picker; null means the backend default
+    @property({ type: Object })
+    selected: ModelRef | null = null;
+
+    @property({ type: Object })
+    defaultModel: ModelRef | null = null;
+
+    // Model used for the next message only
+    @property({ type: Object })
+    override: ModelRef | null = null;
+
+    @state()
+    private open = false;
+
+    @state()
+    private filter = '';
+
+    @state()
+    private once = false;
+
+    static styles = css`
+        :host {
+            display: inline-block;
+            position: relative;
+            min-width: 0;
+        }
+
+        .picker-bar {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.3rem;
+            min-width: 0;
+        }
+
+        .picker-button {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.3rem;
+            max-width: 220px;
+            padding: 0.2rem 0.5rem;
+            background: none;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            color: var(--vscode-editor-foreground);
+            font-size: 0.75rem;
+            cursor: pointer;
+        }
+
+        .picker-button.override {
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .picker-label {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        select {
+            padding: 0.15rem 0.3rem;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 4px;
+            font-size: 0.75rem;
+        }
+
+        .clear-override {
+            background: none;
+            border: none;
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+            font-size: 0.75rem;
+        }
+
+        .model-list {
+            position: absolute;
+            left: 0;
+            bottom: 100%;
+            z-index: 100;
+            width: 300px;
+            max-height: 50vh;
+            overflow-y: auto;
+            margin-bottom: 0.25rem;
+            padding: 0.4rem 0;
+            background-color: var(--vscode-dropdown-background, var(--vscode-editor-background));
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            box-shadow: 0 4px 12px rgba(0, 0, 0, 0.4);
+            font-size: 0.8rem;
+        }
+
+        .list-controls {
+            display: flex;
+            flex-direction: column;
+            gap: 0.3rem;
+            padding: 0 0.6rem 0.4rem;
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+
+        .list-controls input[type="text"] {
+            padding: 0.2rem 0.4rem;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, var(--vscode-widget-border));
+            border-radius: 3px;
+        }
+
+        .once-toggle {
+            display: flex;
+            align-items: center;
+            gap: 0.3rem;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.75rem;
+        }
+
+        .section-title {
+            padding: 0.4rem 0.6rem 0.2rem;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.7rem;
+            text-transform: uppercase;
+        }
+
+        .model-item {
+            display: flex;
+            align-items: center;
+            gap: 0.4rem;
+            padding: 0.25rem 0.6rem;
+            cursor: pointer;
+        }
+
+        .model-item:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .model-item.active {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .model-name {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .model-provider {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.7rem;
+        }
+
+        .star {
+            background: none;
+            border: none;
+            color: var(--vscode-editorWarning-foreground);
+            cursor: pointer;
+            padding: 0;
+        }
+
+        .empty {
+            padding: 0.5rem 0.6rem;
+            color: var(--vscode-descriptionForeground);
+        }
+    `;
+
+    render() {
+        const current = this.override || this.selected || this.defaultModel;
+        const option = current ? this.findOption(current) : undefined;
+        const label = option?.name || current?.modelID || 'Default model';
+
+        return html`
+            <div class="picker-bar">
+                <button class="picker-button ${this.override ? 'override' : ''}"
+                    @click="${this.toggle}"
+                    title="${this.override ? 'Model for the next message only' : 'Model used for new messages'}">
+                    🧠 <span class="picker-label">${label}</span> ${this.open ? '▾' : '▴'}
+                </button>
+                ${option && option.variants.length > 0 ? html`
+                    <select title="Reasoning effort" @change="${this.handleVariantChange}">
+                        <option value="" ?selected="${!current?.variant}">default</option>
+                        ${option.variants.map(v => html`<option value="${v}" ?selected="${current?.variant === v}">${v}</option>`)}
+                    </select>
+                ` : ''}
+                ${this.override ? html`
+                    <button class="clear-override" title="Use the selected model again"
+                        @click="${() => this.emit('model-override-clear', {})}">✕ next only</button>
+                ` : ''}
+            </div>
+            ${this.open ? this.renderList(current) : ''}
+        `;
+    }
+
+    private renderList(current: ModelRef | null) {
+        const filter = this.filter.trim().toLowerCase();
+        const matches = this.models.filter(m => !filter
+            || m.name.toLowerCase().includes(filter)
+            || m.modelID.toLowerCase().includes(filter)
+            || m.providerName.toLowerCase().includes(filter));
+        const pick = (refs: ModelRef[]) => refs
+            .map(ref => matches.find(m => sameModel(m, ref)))
+            .filter((m): m is ModelOption => !!m);
+
+        const providers = [...new Set(matches.map(m => m.providerName))];
+
+        return html`
+            <div class="model-list">
+                <div class="list-controls">
+                    <input type="text" placeholder="Filter models..."
+                        .value="${this.filter}"
+                        @input="${(e: Event) => { this.filter = (e.target as HTMLInputElement).value; }}">
+                    <label class="once-toggle">
+                        <input type="checkbox" .checked="${this.once}"
+                            @change="${(e: Event) => { this.once = (e.target as HTMLInputElement).checked; }}">
+                        Only for the next message
+                    </label>
+                </div>
+                ${matches.length === 0 ? html`<div class="empty">No models found</div>` : ''}
+                ${this.renderSection('Favourites', pick(this.favourites), current)}
+                ${this.renderSection('Recent', pick(this.recent), current)}
+                ${providers.map(provider => this.renderSection(provider, matches.filter(m => m.providerName === provider), current))}
+            </div>
+        `;
+    }
+
+    private renderSection(title: string, models: ModelOption[], current: ModelRef | null) {
+        if (models.length === 0) return null;
+        return html`
+            <div class="section-title">${title}</div>
+            ${models.map(model => {
+                const favourite = this.favourites.some(f => sameModel(f, model));
+                return html`
+                    <div class="model-item ${current && sameModel(current, model) ? 'active' : ''}"
+                        @click="${() => this.select(model)}"
+                        title="${model.providerID}/${model.modelID}">
+                        <span class="model-name">${model.name}</span>
+                        <span class="model-provider">${model.providerName}</span>
+                        <button class="star" title="${favourite ? 'Remove from favourites' : 'Add to favourites'}"
+                            @click="${(e: Event) => this.toggleFavourite(e, model)}">${favourite ? '★' : '☆'}</button>
+                    </div>
+                `;
+            })}
+        `;
+    }
+
+    private findOption(ref: ModelRef): ModelOption | undefined {
+        return this.models.find(m => sameModel(m, ref));
+    }
+
+    private toggle() {
+        this.open = !this.open;
+        if (this.open) {
+            this.filter = '';
+        }
+    }
+
+    private select(model: ModelOption) {
+        this.open = false;
+        this.emit('model-select', {
+            model: { providerID: model.providerID, modelID: model.modelID },
+            once: this.once
+        });
+        this.once = false;
+    }
+
+    private handleVariantChange(e: Event) {
+        const current = this.override || this.selected || this.defaultModel;
+        if (!current) return;
+        const variant = (e.target as HTMLSelectElement).value || undefined;
+        this.emit('model-select', {
+            model: { providerID: current.providerID, modelID: current.modelID, variant },
+            once: !!this.override
+        });
+    }
+
+    private toggleFavourite(e: Event, model: ModelOption) {
+        e.stopPropagation();
+        this.emit('model-favourite', { model: { providerID: model.providerID, modelID: model.modelID } });
+    }
+
+    private emit(name: string, detail: unknown) {
+        this.dispatchEvent(new CustomEvent(name, {
+            detail,
+            bubbles: true,
+            composed: true
+        }));
+    }
+}
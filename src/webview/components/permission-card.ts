@@ -0,0 +1,113 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+export interface PermissionPrompt {
+    id: string;
+    type: string;
+    title: string;
+    command?: string;
+    highRisk: boolean;
+}
+
+@customElement('permission-card')
+export class PermissionCard extends LitElement {
+    @property({ type: Object })
+    permission!: PermissionPrompt;
+
+    static styles = css`
+        :host {
+            display: block;
+            margin: 0.5rem 0;
+        }
+
+        .card {
+            padding: 0.6rem 0.8rem;
+            border: 1px solid var(--vscode-editorWarning-foreground);
+            border-radius: 6px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-size: 0.85rem;
+        }
+
+        .card.high-risk {
+            border-color: var(--vscode-errorForeground);
+        }
+
+        .title {
+            font-weight: 600;
+            margin-bottom: 0.4rem;
+        }
+
+        .kind {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.75rem;
+            text-transform: uppercase;
+            margin-right: 0.4rem;
+        }
+
+        pre {
+            margin: 0 0 0.5rem;
+            padding: 0.4rem;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 3px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.75rem;
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
+
+        .warning {
+            color: var(--vscode-errorForeground);
+            font-size: 0.75rem;
+            margin-bottom: 0.5rem;
+        }
+
+        .actions {
+            display: flex;
+            gap: 0.4rem;
+            flex-wrap: wrap;
+        }
+
+        button {
+            padding: 0.25rem 0.6rem;
+            border: 1px solid var(--vscode-button-border);
+            border-radius: 4px;
+            font-size: 0.75rem;
+            cursor: pointer;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        button.primary {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        button:hover {
+            opacity: 0.9;
+        }
+    `;
+
+    render() {
+        const p = this.permission;
+        return html`
+            <div class="card ${p.highRisk ? 'high-risk' : ''}">
+                <div class="title"><span class="kind">${p.type}</span>${p.title}</div>
+                ${p.command ? html`<pre>${p.command}</pre>` : ''}
+                ${p.highRisk ? html`<div class="warning">⚠️ This command may delete data or change your system.</div>` : ''}
+                <div class="actions">
+                    <button class="primary" @click="${() => this.respond('once')}">Allow once</button>
+                    <button @click="${() => this.respond('always')}">Always for this session</button>
+                    <button @click="${() => this.respond('reject')}">Deny</button>
+                </div>
+            </div>
+        `;
+    }
+
+    private respond(response: 'once' | 'always' | 'reject') {
+        this.dispatchEvent(new CustomEvent('permission-response', {
+            detail: { permissionId: this.permission.id, response },
+            bubbles: true,
+            composed: true
+        }));
+    }
+}
@@ -0,0 +1,89 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { renderMarkdown } from '../utils/markdown-renderer';
+
+@customElement('reasoning-block')
+export class ReasoningBlock extends LitElement {
+    @property({ type: String })
+    text = '';
+
+    // Part timing; no end means the model is still thinking
+    @property({ type: Object })
+    time: { start?: number; end?: number } | undefined;
+
+    @property({ type: Boolean })
+    defaultExpanded = false;
+
+    // Restored from history: never streaming, even without an end time
+    @property({ type: Boolean })
+    restored = false;
+
+    // User toggle wins over the default once set
+    @state()
+    private expanded: boolean | null = null;
+
+    static styles = css`
+        :host {
+            display: block;
+            margin: 0.3rem 0 0.5rem;
+        }
+
+        .reasoning {
+            border-left: 2px solid var(--vscode-widget-border);
+            padding-left: 0.6rem;
+        }
+
+        .reasoning-header {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.3rem;
+            padding: 0;
+            background: none;
+            border: none;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.75rem;
+            cursor: pointer;
+        }
+
+        .reasoning-header.streaming .label {
+            animation: pulse 1.5s ease-in-out infinite;
+        }
+
+        @keyframes pulse {
+            0%, 100% { opacity: 1; }
+            50% { opacity: 0.4; }
+        }
+
+        .reasoning-content {
+            margin-top: 0.3rem;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.85em;
+            line-height: 1.5;
+        }
+    `;
+
+    render() {
+        const streaming = !this.restored && !this.time?.end;
+        const expanded = this.expanded ?? this.defaultExpanded;
+
+        return html`
+            <div class="reasoning">
+                <button class="reasoning-header ${streaming ? 'streaming' : ''}"
+                    @click="${() => { this.expanded = !expanded; }}">
+                    <span>${expanded ? '▾' : '▸'}</span>
+                    <span class="label">${this.label(streaming)}</span>
+                </button>
+                ${expanded ? html`
+                    <div class="reasoning-content" .innerHTML="${renderMarkdown(this.text)}"></div>
+                ` : ''}
+            </div>
+        `;
+    }
+
+    private label(streaming: boolean): string {
+        if (streaming) return 'Reasoning...';
+        if (!this.time?.start || !this.time?.end) return 'Reasoning';
+        const seconds = (this.time.end - this.time.start) / 1000;
+        return `Thought for ${seconds < 10 ? seconds.toFixed(1) : Math.round(seconds)}s`;
+    }
+}
@@ -0,0 +1,249 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+export interface SessionSummary {
+    id: string;
+    title: string;
+    updated: number;
+}
+
+@customElement('session-picker')
+export class SessionPicker extends LitElement {
+    @property({ type: Array })
+    sessions: SessionSummary[] = [];
+
+    @property({ type: String })
+    activeSessionId: string | null = null;
+
+    // Sessions with activity in the background (another panel or the CLI on the same backend)
+    @property({ type: Array })
+    busySessionIds: string[] = [];
+
+    @state()
+    private open = false;
+
+    static styles = css`
+        :host {
+            display: block;
+            position: relative;
+        }
+
+        .session-bar {
+            display: flex;
+            align-items: center;
+            gap: 0.4rem;
+            padding: 0.3rem 1rem;
+            font-size: 0.75rem;
+            background-color: var(--vscode-editor-background);
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+
+        .session-current {
+            flex: 1;
+            display: inline-flex;
+            align-items: center;
+            gap: 0.3rem;
+            min-width: 0;
+            padding: 0.2rem 0.4rem;
+            background: none;
+            border: 1px solid transparent;
+            border-radius: 4px;
+            color: var(--vscode-editor-foreground);
+            font-size: 0.75rem;
+            cursor: pointer;
+            text-align: left;
+        }
+
+        .session-current:hover {
+            border-color: var(--vscode-widget-border);
+        }
+
+        .session-title {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .icon-btn {
+            padding: 0.2rem 0.4rem;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: 1px solid var(--vscode-button-border);
+            border-radius: 4px;
+            font-size: 0.75rem;
+            cursor: pointer;
+        }
+
+        .icon-btn:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        .session-list {
+            position: absolute;
+            left: 0.5rem;
+            right: 0.5rem;
+            top: 100%;
+            z-index: 100;
+            max-height: 50vh;
+            overflow-y: auto;
+            margin: 0;
+            padding: 0.25rem 0;
+            list-style: none;
+            background-color: var(--vscode-dropdown-background, var(--vscode-editor-background));
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            box-shadow: 0 4px 12px rgba(0, 0, 0, 0.4);
+        }
+
+        .session-item {
+            display: flex;
+            align-items: center;
+            gap: 0.4rem;
+            padding: 0.3rem 0.6rem;
+            cursor: pointer;
+            font-size: 0.8rem;
+        }
+
+        .session-item:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .session-item.active {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .session-item .session-title {
+            flex: 1;
+        }
+
+        .session-time {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.7rem;
+            white-space: nowrap;
+        }
+
+        .session-item-actions {
+            display: none;
+            gap: 0.2rem;
+        }
+
+        .session-item:hover .session-item-actions {
+            display: inline-flex;
+        }
+
+        .activity-badge {
+            padding: 0.1rem 0.4rem;
+            border-radius: 8px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            font-size: 0.7rem;
+            white-space: nowrap;
+        }
+
+        .activity-dot {
+            color: var(--vscode-badge-background);
+            font-size: 0.7rem;
+        }
+
+        .session-empty {
+            padding: 0.5rem 0.6rem;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.8rem;
+        }
+
+        :host-context(.dragonfu-theme) .session-item.active {
+            border-left: 2px solid var(--dragonfu-neon-cyan, #00f3ff);
+        }
+    `;
+
+    render() {
+        const active = this.sessions.find(s => s.id === this.activeSessionId);
+
+        return html`
+            <div class="session-bar">
+                <button class="session-current" @click="${this.toggle}" title="Switch session">
+                    💬 <span class="session-title">${active?.title || 'New session'}</span> ${this.open ? '▴' : '▾'}
+                </button>
+                ${this.busySessionIds.length > 0 ? html`
+                    <span class="activity-badge" title="Other sessions on this backend are active">
+                        ● ${this.busySessionIds.length} active
+                    </span>
+                ` : ''}
+                <button class="icon-btn" @click="${() => this.emit('create')}" title="New session">＋</button>
+            </div>
+
+            ${this.open ? html`
+                <ul class="session-list">
+                    ${this.sessions.length === 0 ? html`<li class="session-empty">No sessions yet</li>` : ''}
+                    ${this.sessions.map(session => html`
+                        <li class="session-item ${session.id === this.activeSessionId ? 'active' : ''}"
+                            @click="${() => this.handleSelect(session.id)}"
+                            title="${session.title}">
+                            <span class="session-title">${session.title || session.id}</span>
+                            ${this.busySessionIds.includes(session.id) ? html`<span class="activity-dot" title="Active in the background">●</span>` : ''}
+                            <span class="session-time">${this.formatTime(session.updated)}</span>
+                            <span class="session-item-actions">
+                                <button class="icon-btn" title="Rename"
+                                    @click="${(e: Event) => this.handleItemAction(e, 'rename', session.id)}">✏️</button>
+                                <button class="icon-btn" title="Delete"
+                                    @click="${(e: Event) => this.handleItemAction(e, 'delete', session.id)}">🗑️</button>
+                            </span>
+                        </li>
+                    `)}
+                </ul>
+            ` : ''}
+        `;
+    }
+
+    private toggle() {
+        this.open = !this.open;
+        if (this.open) {
+            // Refresh titles and timestamps every time the list is opened
+            this.emit('list');
+        }
+    }
+
+    private handleSelect(sessionId: string) {
+        this.open = false;
+        if (sessionId !== this.activeSessionId) {
+            this.emit('switch', sessionId);
+        }
+    }
+
+    private handleItemAction(e: Event, action: 'rename' | 'delete', sessionId: string) {
+        e.stopPropagation();
+        this.open = false;
+        this.emit(action, sessionId);
+    }
+
+    private emit(action: string, sessionId?: string) {
+        if (action === 'create') {
+            this.open = false;
+        }
+        this.dispatchEvent(new CustomEvent('session-action', {
+            detail: { action, sessionId },
+            bubbles: true,
+            composed: true
+        }));
+    }
+
+    private formatTime(timestamp: number): string {
+        if (!timestamp) return '';
+        const diff = Date.now() - timestamp;
+        const minutes = Math.floor(diff / 60000);
+        if (minutes < 1) return 'just now';
+        if (minutes < 60) return `${minutes}m ago`;
+        const hours = Math.floor(minutes / 60);
+        if (hours < 24) return `${hours}h ago`;
+        const days = Math.floor(hours / 24);
+        if (days < 7) return `${days}d ago`;
+        return new Date(timestamp).toLocaleDateString();
+    }
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'session-picker': SessionPicker;
+    }
+}
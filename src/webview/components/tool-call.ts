@@ -0,0 +1,211 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { ChatMessagePart } from './chat-message';
+
+type ToolStatus = 'pending' | 'running' | 'completed' | 'error';
+
+// Input keys whose values are file paths (read/edit/write use filePath, grep/glob/list use path)
+const PATH_KEYS = new Set(['filePath', 'path', 'file']);
+
+@customElement('tool-call')
+export class ToolCall extends LitElement {
+    @property({ type: Object })
+    toolPart!: ChatMessagePart;
+
+    @state()
+    private expanded = false;
+
+    static styles = css`
+        :host {
+            display: block;
+            margin: 0.4rem 0;
+        }
+
+        .tool {
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            font-size: 0.8rem;
+            overflow: hidden;
+        }
+
+        .tool.error {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+
+        .tool-header {
+            display: flex;
+            align-items: center;
+            gap: 0.4rem;
+            width: 100%;
+            padding: 0.3rem 0.5rem;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            border: none;
+            color: var(--vscode-editor-foreground);
+            font-size: 0.8rem;
+            cursor: pointer;
+            text-align: left;
+        }
+
+        .chevron {
+            width: 0.8rem;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .tool-name {
+            font-family: var(--vscode-editor-font-family);
+            font-weight: 600;
+        }
+
+        .tool-title {
+            flex: 1;
+            min-width: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .status {
+            padding: 0 0.3rem;
+            border-radius: 3px;
+            font-size: 0.7rem;
+            text-transform: uppercase;
+        }
+
+        .status.pending,
+        .status.running {
+            color: var(--vscode-editorWarning-foreground);
+        }
+
+        .status.completed {
+            color: var(--vscode-testing-iconPassed);
+        }
+
+        .status.error {
+            color: var(--vscode-errorForeground);
+        }
+
+        .duration {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.7rem;
+        }
+
+        .tool-body {
+            padding: 0.4rem 0.5rem;
+            border-top: 1px solid var(--vscode-widget-border);
+        }
+
+        .section-label {
+            margin: 0.3rem 0 0.2rem;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.7rem;
+            text-transform: uppercase;
+        }
+
+        .args {
+            display: grid;
+            grid-template-columns: max-content 1fr;
+            gap: 0.1rem 0.6rem;
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .arg-key {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .arg-value {
+            word-break: break-all;
+            white-space: pre-wrap;
+        }
+
+        .file-link {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            text-decoration: underline;
+        }
+
+        pre {
+            margin: 0;
+            max-height: 300px;
+            overflow: auto;
+            padding: 0.4rem;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 3px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.75rem;
+            white-space: pre-wrap;
+        }
+
+        .error-text {
+            color: var(--vscode-errorForeground);
+        }
+    `;
+
+    render() {
+        const state = this.toolPart.state || {};
+        const status: ToolStatus = state.status || 'pending';
+        const duration = this.formatDuration(state.time);
+
+        return html`
+            <div class="tool ${status}">
+                <button class="tool-header" @click="${() => { this.expanded = !this.expanded; }}">
+                    <span class="chevron">${this.expanded ? '▾' : '▸'}</span>
+                    <span class="tool-name">${this.toolPart.tool || 'tool'}</span>
+                    <span class="tool-title">${state.title || ''}</span>
+                    ${duration ? html`<span class="duration">${duration}</span>` : ''}
+                    <span class="status ${status}">${status}</span>
+                </button>
+                ${this.expanded ? this.renderBody(state) : ''}
+            </div>
+        `;
+    }
+
+    private renderBody(state: any) {
+        const input = state.input && typeof state.input === 'object' ? state.input : {};
+        const entries = Object.entries(input);
+
+        return html`
+            <div class="tool-body">
+                ${entries.length > 0 ? html`
+                    <div class="section-label">Input</div>
+                    <div class="args">
+                        ${entries.map(([key, value]) => html`
+                            <span class="arg-key">${key}</span>
+                            ${this.renderValue(key, value)}
+                        `)}
+                    </div>
+                ` : ''}
+                ${state.status === 'error' && state.error ? html`
+                    <div class="section-label">Error</div>
+                    <pre class="error-text">${state.error}</pre>
+                ` : ''}
+                ${state.output ? html`
+                    <div class="section-label">Output</div>
+                    <pre>${state.output}</pre>
+                ` : ''}
+            </div>
+        `;
+    }
+
+    private renderValue(key: string, value: unknown) {
+        if (PATH_KEYS.has(key) && typeof value === 'string' && value) {
+            return html`<span class="arg-value file-link" title="Open file" @click="${() => this.openFile(value)}">${value}</span>`;
+        }
+        const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+        return html`<span class="arg-value">${text}</span>`;
+    }
+
+    private formatDuration(time?: { start?: number; end?: number }): string {
+        if (!time?.start || !time?.end) return '';
+        const ms = time.end - time.start;
+        return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+    }
+
+    private openFile(path: string) {
+        this.dispatchEvent(new CustomEvent('open-file', {
+            detail: { path },
+            bubbles: true,
+            composed: true
+        }));
+    }
+}
@@ -1,5 +1,19 @@
+import type { DiffHunk } from '../components/diff-preview';
+
+// Diff computed by the extension host against the target file's current text
+export interface ProposedDiff {
+    code: string;
+    original: string;
+    newFile?: boolean;
+    messageTime?: number;
+    // The file changed after it was sent: code is already merged with those edits, or the merge conflicts
+    merged?: boolean;
+    conflicts?: number;
+    hunks: DiffHunk[];
+}
+
 export interface DiffManager {
-    show(content: string, filePath?: string | null, fileName?: string): void;
+    show(content: string, filePath?: string | null, fileName?: string, diff?: ProposedDiff): void;
     hide(): void;
     isVisible(): boolean;
 }
@@ -24,14 +38,15 @@ export function createDiffManager(): DiffManager {
     }
 
     return {
-        show(content: string, filePath?: string | null, fileName?: string) {
+        show(content: string, filePath?: string | null, fileName?: string, diff?: ProposedDiff) {
             const codeMatch = content.match(/```(?:\w+)?\n([\s\S]*?)```/);
-            const code = codeMatch ? codeMatch[1] : content;
+            const code = diff ? diff.code : codeMatch ? codeMatch[1] : content;
             
             currentFilePath = filePath || null;
             
             const preview = getDiffPreview();
-            preview.setDiff(code, code, fileName || 'preview.ts', filePath || '');
+            preview.setDiff(diff ? diff.original : '', code, fileName || 'preview.ts', filePath || '', diff?.hunks, diff?.newFile);
+            preview.setMergeState(diff?.messageTime, diff?.merged, diff?.conflicts);
             
             if (!document.body.contains(preview)) {
                 document.body.appendChild(preview);
@@ -4,6 +4,18 @@ import { createDiffManager } from './diff-manager';
 let chatView: ChatView | null = null;
 let diffManager: any = null;
 
+// VS Code API the host page stores on window.vscode (see WebviewController's inline script)
+interface VSCodeApi {
+    postMessage(message: { type: string; [key: string]: unknown }): void;
+}
+
+/**
+ * Post a message to the extension host; a no-op when the page runs outside VS Code
+ */
+export function postToExtension(message: { type: string; [key: string]: unknown }): void {
+    (window as Window & { vscode?: VSCodeApi }).vscode?.postMessage(message);
+}
+
 export interface MessageHandlerConfig {
     onShowDiff?: (content: string) => void;
     onThemeUpdate?: (theme: string) => void;
@@ -47,8 +59,136 @@ export function createMessageHandler(config: MessageHandlerConfig = {}) {
                 }
                 break;
 
+            case 'chat.message':
+                if (chat && typeof chat.upsertMessage === 'function') {
+                    chat.upsertMessage(message.sessionId, message.message);
+                }
+                break;
+
+            case 'permission.request':
+                if (chat && typeof chat.addPermissionRequest === 'function') {
+                    chat.addPermissionRequest(message.sessionId, message.permission);
+                }
+                break;
+
+            case 'permission.resolved':
+                if (chat && typeof chat.resolvePermission === 'function') {
+                    chat.resolvePermission(message.permissionId);
+                }
+                break;
+
+            case 'chat.idle':
+                if (chat && typeof chat.setIdle === 'function') {
+                    chat.setIdle();
+                }
+                break;
+
+            case 'chat.aborted':
+                if (chat && typeof chat.markAborted === 'function') {
+                    chat.markAborted();
+                }
+                break;
+
+            case 'session.state':
+                if (chat && typeof chat.setSessionState === 'function') {
+                    chat.setSessionState(message.sessions || [], message.activeSessionId ?? null);
+                }
+                break;
+
+            case 'chat.error':
+                if (chat && typeof chat.showError === 'function') {
+                    chat.showError(message.error, !!message.canRetry);
+                }
+                break;
+
+            case 'context.folderSummary':
+                if (chat && typeof chat.setFolderSummary === 'function') {
+                    chat.setFolderSummary(message.id, message.summary);
+                }
+                break;
+
+            case 'context.estimates':
+                if (chat && typeof chat.setContextEstimates === 'function') {
+                    chat.setContextEstimates(message.estimates);
+                }
+                break;
+
+            case 'context.itemUpdate':
+                if (chat && typeof chat.updateContextItem === 'function') {
+                    chat.updateContextItem(message.id, message.changes);
+                }
+                break;
+
+            case 'context.pinned':
+                if (chat && typeof chat.setPinnedContext === 'function') {
+                    chat.setPinnedContext(message.items);
+                }
+                break;
+
+            case 'context.applySet':
+                if (chat && typeof chat.applyContextSet === 'function') {
+                    chat.applyContextSet(message.items);
+                }
+                break;
+
+            case 'mention.results':
+                if (chat && typeof chat.setMentionResults === 'function') {
+                    chat.setMentionResults(message.requestId, message.results);
+                }
+                break;
+
+            case 'ui.settings':
+                if (chat && typeof chat.setUISettings === 'function') {
+                    chat.setUISettings(message);
+                }
+                break;
+
+            case 'session.usage':
+                if (chat && typeof chat.setSessionUsage === 'function') {
+                    chat.setSessionUsage(message.sessionId, message.usage, message.budget || 0);
+                }
+                break;
+
+            case 'chat.blocked':
+                if (chat && typeof chat.markBlocked === 'function') {
+                    chat.markBlocked(message.reason);
+                }
+                break;
+
+            case 'agent.state':
+                if (chat && typeof chat.setAgentState === 'function') {
+                    chat.setAgentState(message.agents || [], message.selected ?? null);
+                }
+                break;
+
+            case 'model.state':
+                if (chat && typeof chat.setModelState === 'function') {
+                    chat.setModelState(message);
+                }
+                break;
+
+            case 'session.activity':
+                if (chat && typeof chat.setBackgroundActivity === 'function') {
+                    chat.setBackgroundActivity(message.sessionIds || []);
+                }
+                break;
+
+            case 'chat.history':
+                if (chat && typeof chat.setHistory === 'function') {
+                    chat.setHistory(message.sessionId, message.messages || []);
+                }
+                break;
+
             case 'diff.show':
-                getDiffManager().show(message.content, message.filePath, message.fileName);
+                getDiffManager().show(message.content, message.filePath, message.fileName, Array.isArray(message.hunks) ? {
+                    code: message.code,
+                    original: message.original || '',
+                    newFile: message.newFile,
+                    messageTime: message.messageTime,
+                    merged: message.merged,
+                    conflicts: message.conflicts,
+                    hunks: message.hunks
+                } : undefined);
                 break;
 
             case 'diff.close':
@@ -56,15 +196,12 @@ export function createMessageHandler(config: MessageHandlerConfig = {}) {
                 break;
 
             case 'diff.applyCode':
-                const vscode = (window as any).vscode;
-                if (vscode) {
-                    vscode.postMessage({
-                        type: 'diff.applyCode',
-                        code: message.code,
-                        fileName: message.fileName,
-                        filePath: message.filePath
-                    });
-                }
+                postToExtension({
+                    type: 'diff.applyCode',
+                    code: message.code,
+                    fileName: message.fileName,
+                    filePath: message.filePath
+                });
                 getDiffManager().hide();
                 break;
 
@@ -126,6 +263,16 @@ export function createMessageHandler(config: MessageHandlerConfig = {}) {
                 }
                 break;
 
+            case 'connection.stream':
+                if (chat && typeof chat.handleServerEvent === 'function') {
+                    chat.handleServerEvent({
+                        type: 'connection.stream',
+                        state: message.state,
+                        retryInMs: message.retryInMs,
+                    });
+                }
+                break;
+
             case 'connection.status':
                 if (chat && typeof chat.handleServerEvent === 'function') {
                     console.log('[Main] Connection status:', message);
@@ -0,0 +1,33 @@
+export interface TokenUsage {
+    input: number;
+    output: number;
+    reasoning: number;
+    cacheRead: number;
+    cacheWrite: number;
+}
+
+export interface MessageUsage {
+    tokens: TokenUsage;
+    cost: number;
+}
+
+/**
+ * Compact token count: 950, 1.2k, 3.4M
+ */
+export function formatTokens(count: number): string {
+    if (count < 1000) return String(count);
+    if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+    return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Cost in USD with enough precision for cheap messages
+ */
+export function formatCost(cost: number): string {
+    if (cost === 0) return '$0';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function totalTokens(tokens: TokenUsage): number {
+    return tokens.input + tokens.output + tokens.reasoning + tokens.cacheRead + tokens.cacheWrite;
+}